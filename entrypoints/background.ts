@@ -1,10 +1,76 @@
+import {
+  checkApiKey,
+  createApiKeyEntry,
+  getActiveApiKeyId,
+  getNextApiKey,
+  getSessionApiKey,
+  loadApiKeys,
+  migrateLegacyApiKey,
+  setActiveApiKeyId,
+  updateApiKeyStatus,
+  updateApiKeys
+} from '~/utils/api-keys';
+import { GeminiAudioUnderstandingSession } from '~/utils/gemini-audio-understanding';
 import { GeminiLiveSession } from '~/utils/gemini-live';
+import {
+  ConnectionState,
+  type SessionStatus,
+  type TranscriptionResult,
+  type TranscriptionSession
+} from '~/utils/transcription-session';
+import {
+  addTranscriptCoverage,
+  appendTranscriptLine,
+  createTranscriptKey,
+  getTranscript,
+  type TimeRange,
+  type TranscriptSource
+} from '~/utils/transcript-store';
+import type { CaptureMethod } from '~/utils/audio-capture';
+import {
+  AUDIO_PORT_PREFIX,
+  OFFSCREEN_AUDIO_PORT_PREFIX,
+  decodeSamples,
+  type AudioPortAck,
+  type AudioPortChunk,
+  type AudioPortMessage
+} from '~/utils/audio-port';
+import { loadAudioProcessingSettings } from '~/utils/audio-processing';
+import { loadSessionSettings } from '~/utils/session-settings';
+import {
+  INVALID_API_KEY_REASON,
+  NO_USABLE_API_KEY_REASON,
+  QUOTA_EXCEEDED_REASON,
+  STATUS_TONE_COLORS,
+  createSessionStatus,
+  describeSessionError,
+  getMostSevereBadge,
+  getStatusBadge,
+  type StatusBadge
+} from '~/utils/session-status';
+import { startTabCapture, stopTabCapture } from '~/utils/tab-capture';
+import {
+  buildSystemInstruction,
+  getProfileOrActive,
+  type TranslationProfile
+} from '~/utils/translation-profiles';
 
 export default defineBackground(() => {
   console.log('Video subtitle background script loaded', { id: browser.runtime.id });
 
+  // Move an API key saved by an older version into the named key list
+  migrateLegacyApiKey().catch(err => {
+    console.error('Error migrating the saved API key:', err);
+  });
+
   // Initialize message handling for content script communication
   setupMessageHandling();
+
+  // Initialize audio ports streaming captured audio into sessions
+  setupAudioPortHandling();
+
+  // Initialize keyboard shortcuts declared in the manifest
+  setupCommandHandling();
 });
 
 interface GeminiConfig {
@@ -14,12 +80,40 @@ interface GeminiConfig {
 }
 
 interface SessionInfo {
-  session: GeminiLiveSession;
+  session: TranscriptionSession;
+  profile: TranslationProfile;
+  apiKeyId: string; // Stored key the session uses; replaced when the key runs out of quota
+  tabId: number;
+  frameId: number; // Frame of the content script that owns the video (0: top frame)
+  videoId: string; // Assigned by the content script, unique within its frame
+  captureMethod: CaptureMethod; // 'tab': audio comes from the offscreen document, not the content script
+  sentSeconds: number; // Audio streamed to Gemini
+  skippedSeconds: number; // Audio held back as silence
+  status: SessionStatus;
+}
+
+// A video whose session failed to start, remembered so the popup and action badge can say why
+interface FailedSession {
   tabId: number;
+  frameId: number;
+  videoId: string;
+  status: SessionStatus;
 }
 
-// Store active Gemini sessions per tab
-const activeSessions = new Map<number, SessionInfo>();
+// Store active Gemini sessions per video, oldest first
+const activeSessions = new Map<string, SessionInfo>();
+const failedSessions = new Map<string, FailedSession>();
+
+// Videos whose session is being set up but not yet in activeSessions, by the ID of their start request.
+// A stop request removes the entry, which cancels the start.
+const pendingStarts = new Map<string, number>();
+let nextStartId = 1;
+
+const STOPPED_WHILE_STARTING = 'Session stopped while starting';
+
+function getSessionKey(tabId: number, frameId: number, videoId: string): string {
+  return `${tabId}:${frameId}:${videoId}`;
+}
 
 // TODO: In production, API key should come from user settings or secure storage
 const GEMINI_CONFIG: GeminiConfig = {
@@ -38,19 +132,43 @@ function setupMessageHandling() {
           return handleGetGeminiConfig();
 
         case 'SET_API_KEY':
-          return handleSetApiKey(message.apiKey);
+          return handleSetApiKey(message.apiKey, message.name);
+
+        case 'REMOVE_API_KEY':
+          return handleRemoveApiKey(message.keyId);
 
         case 'VALIDATE_API_KEY':
-          return handleValidateApiKey(message.apiKey);
+          return handleValidateApiKey(message.apiKey, message.keyId);
 
         case 'START_GEMINI_SESSION':
-          return handleStartSession(sender.tab?.id);
+          return handleStartSession(
+            sender.tab?.id,
+            sender.frameId ?? 0,
+            message.videoId,
+            message.profileId,
+            message.captureMethod ?? 'element'
+          );
 
         case 'STOP_GEMINI_SESSION':
-          return handleStopSession(sender.tab?.id);
+          return handleStopSession(sender.tab?.id, sender.frameId ?? 0, message.videoId);
 
-        case 'SEND_AUDIO_CHUNK':
-          return handleAudioChunk(sender.tab?.id, message.audioData);
+        case 'GET_PAGE_URL':
+          return { success: true, url: sender.tab?.url ?? null };
+
+        case 'PAGE_URL_CHANGED':
+          return handlePageUrlChanged(sender.tab?.id, sender.frameId ?? 0, message.url);
+
+        case 'GET_TAB_SESSIONS':
+          return handleGetTabSessions(message.tabId);
+
+        case 'SAVE_TRANSCRIPT_LINE':
+          return handleSaveTranscriptLine(message.source, message.text, message.original, message.start, message.end);
+
+        case 'SAVE_TRANSCRIPT_COVERAGE':
+          return handleSaveTranscriptCoverage(message.source, message.range);
+
+        case 'GET_CACHED_TRANSCRIPT':
+          return handleGetCachedTranscript(message.source);
 
         default:
           console.warn('Unknown message type:', message.type);
@@ -63,17 +181,69 @@ function setupMessageHandling() {
   });
 }
 
+// Each capturing video (or tab capture) streams its audio over its own port, in order
+function setupAudioPortHandling() {
+  browser.runtime.onConnect.addListener((port) => {
+    let sessionKey: string;
+    if (port.name.startsWith(AUDIO_PORT_PREFIX) && port.sender?.tab?.id !== undefined) {
+      const videoId = port.name.slice(AUDIO_PORT_PREFIX.length);
+      sessionKey = getSessionKey(port.sender.tab.id, port.sender.frameId ?? 0, videoId);
+    } else if (port.name.startsWith(OFFSCREEN_AUDIO_PORT_PREFIX)) {
+      sessionKey = port.name.slice(OFFSCREEN_AUDIO_PORT_PREFIX.length);
+    } else {
+      return;
+    }
+
+    let expectedSeq = 0;
+    port.onMessage.addListener((message: AudioPortMessage) => {
+      if (message.seq < expectedSeq) {
+        return; // Duplicate or out of order
+      }
+      if (message.seq > expectedSeq) {
+        console.warn(`[Background] ${message.seq - expectedSeq} audio chunks dropped by the sender for ${sessionKey}`);
+      }
+      expectedSeq = message.seq + 1;
+
+      if (message.type === 'chunk') {
+        handleAudioChunk(sessionKey, message);
+      } else {
+        handleSkippedAudio(sessionKey, message.seconds, message.streamEnd);
+      }
+
+      // Acknowledge even without a session so the sender never stalls
+      const ack: AudioPortAck = { seq: message.seq };
+      port.postMessage(ack);
+    });
+  });
+}
+
+function setupCommandHandling() {
+  browser.commands.onCommand.addListener(async (command) => {
+    if (command !== 'toggle-overlay-edit') {
+      return;
+    }
+
+    // Toggle drag/resize mode for the subtitle overlay in the active tab
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id) {
+      browser.tabs.sendMessage(tab.id, { type: 'TOGGLE_OVERLAY_EDIT' }).catch(err => {
+        console.error('Error toggling overlay edit mode:', err);
+      });
+    }
+  });
+}
+
 async function handleGetGeminiConfig() {
   try {
-    // Get API key from storage
-    const result = await browser.storage.local.get(['apiKey']);
+    // Get the key new sessions would use from storage
+    const apiKey = (await getSessionApiKey())?.key;
 
     return {
       success: true,
-      apiKey: result.apiKey || null,
-      config: result.apiKey ? {
+      apiKey: apiKey || null,
+      config: apiKey ? {
         ...GEMINI_CONFIG,
-        apiKey: result.apiKey
+        apiKey
       } : null
     };
   } catch (error) {
@@ -87,97 +257,424 @@ async function handleGetGeminiConfig() {
   }
 }
 
-async function handleSetApiKey(apiKey: string) {
-  if (!apiKey || typeof apiKey !== 'string') {
-    return { success: false, error: 'Invalid API key' };
+// Check a key and add it to the stored list; with no active key yet, the first stored key becomes it.
+// Keys are changed here only, so the popup's edits and the statuses sessions record don't collide.
+async function handleSetApiKey(apiKey: string, name: string | undefined) {
+  const trimmedKey = typeof apiKey === 'string' ? apiKey.trim() : '';
+  if (!trimmedKey) {
+    return { success: false, error: 'API key cannot be empty' };
+  }
+  const check = await checkApiKey(trimmedKey);
+  if (check.status === 'invalid') {
+    return { success: false, error: `API key not saved: ${check.reason ?? 'Invalid API key'}` };
   }
 
-  // Store API key securely
-  await browser.storage.local.set({ apiKey });
+  // The key may have been added while it was being checked, so look for it in the list being changed
+  const entry = createApiKeyEntry(name?.trim() ?? '', trimmedKey, check);
+  let isDuplicate = false;
+  const apiKeys = await updateApiKeys((current) => {
+    isDuplicate = current.some(candidate => candidate.key === trimmedKey);
+    if (isDuplicate) {
+      return current;
+    }
+    entry.name ||= `Key ${current.length + 1}`;
+    return [...current, entry];
+  });
+  if (isDuplicate) {
+    return { success: false, error: 'This API key is already saved' };
+  }
+
+  const activeId = await getActiveApiKeyId();
+  if (!apiKeys.some(candidate => candidate.id === activeId)) {
+    await setActiveApiKeyId(apiKeys[0].id);
+  }
 
   console.log('API key stored successfully');
+  return { success: true, keyId: entry.id, status: check.status, message: check.reason ?? 'API key is valid' };
+}
+
+// Remove a stored key; the active key moves to the first remaining one when it was removed
+async function handleRemoveApiKey(keyId: string) {
+  const apiKeys = await updateApiKeys(current => current.filter(entry => entry.id !== keyId));
+
+  const activeId = await getActiveApiKeyId();
+  if (activeId === keyId && apiKeys.length > 0) {
+    await setActiveApiKeyId(apiKeys[0].id);
+  }
   return { success: true };
 }
 
-async function handleValidateApiKey(apiKey: string) {
-  // TODO: Implement API key validation by making a test request
-  // For now, just check if it looks like a valid API key format
-  const isValid = apiKey && apiKey.startsWith('AIza') && apiKey.length > 20;
+// Check a key against the API; the result is recorded when it is a stored key
+async function handleValidateApiKey(apiKey: string, keyId: string | undefined) {
+  if (!apiKey || typeof apiKey !== 'string') {
+    return { success: false, error: 'Invalid API key' };
+  }
+
+  const check = await checkApiKey(apiKey.trim());
+  if (keyId) {
+    await updateApiKeyStatus(keyId, check);
+  }
 
   return {
     success: true,
-    isValid,
-    message: isValid ? 'API key format is valid' : 'Invalid API key format'
+    isValid: check.status === 'valid',
+    status: check.status,
+    message: check.reason ?? 'API key is valid'
   };
 }
 
 // Session Management Handlers
 
-async function handleStartSession(tabId: number | undefined) {
+async function handleStartSession(
+  tabId: number | undefined,
+  frameId: number,
+  videoId: string,
+  profileId: string | null | undefined,
+  captureMethod: CaptureMethod
+) {
   if (!tabId) {
     return { success: false, error: 'No tab ID provided' };
   }
 
+  // Check if session already exists (or is starting) for this video
+  const sessionKey = getSessionKey(tabId, frameId, videoId);
+  if (activeSessions.has(sessionKey) || pendingStarts.has(sessionKey)) {
+    console.log(`Session already exists for video ${videoId} in tab ${tabId} frame ${frameId}`);
+    return { success: true, message: 'Session already active' };
+  }
+  failedSessions.delete(sessionKey);
+
+  // Reserve the video before the first await, so a second request can't start another session
+  const startId = nextStartId++;
+  pendingStarts.set(sessionKey, startId);
+  let isTracked = false;
+  const isCancelled = () => !isTracked && pendingStarts.get(sessionKey) !== startId;
+
   try {
-    // Check if session already exists for this tab
-    if (activeSessions.has(tabId)) {
-      console.log(`Session already exists for tab ${tabId}`);
-      return { success: true, message: 'Session already active' };
+    // Get the active API key, or the next one when it is invalid or out of quota
+    const apiKey = await getSessionApiKey();
+    if (!apiKey) {
+      const hasKeys = (await loadApiKeys()).length > 0;
+      throw new Error(hasKeys ? NO_USABLE_API_KEY_REASON : 'No API key configured');
     }
 
-    // Get API key from storage
-    const result = await browser.storage.local.get(['apiKey']);
-    if (!result.apiKey) {
-      return { success: false, error: 'No API key configured' };
-    }
+    // Build the system instruction from the site's profile, or the active one
+    const profile = await getProfileOrActive(profileId);
 
-    console.log(`[Background] Starting Gemini session for tab ${tabId}`);
+    console.log(`[Background] Starting ${profile.engine} Gemini session for video ${videoId} in tab ${tabId} frame ${frameId} with profile "${profile.name}"`);
 
-    // Create new Gemini Live session
-    const session = new GeminiLiveSession(result.apiKey);
+    // Make room under the concurrent session limit; this start is still counted as pending
+    const { maxConcurrentSessions, gateSilence } = await loadSessionSettings();
+    await evictOldestSessions(Math.max(1, maxConcurrentSessions));
+
+    if (isCancelled()) {
+      return { success: false, error: STOPPED_WHILE_STARTING };
+    }
+    pendingStarts.delete(sessionKey);
+    isTracked = true;
+
+    // Create the Gemini session for the profile's transcription engine, tracked while it connects
+    const sessionInfo: SessionInfo = {
+      session: createTranscriptionSession(apiKey.key, profile),
+      profile,
+      apiKeyId: apiKey.id,
+      tabId,
+      frameId,
+      videoId,
+      captureMethod,
+      sentSeconds: 0,
+      skippedSeconds: 0,
+      status: createSessionStatus(ConnectionState.CONNECTING)
+    };
+    activeSessions.set(sessionKey, sessionInfo);
+    broadcastSessionStatus(sessionInfo);
 
-    // Connect to Gemini with callback to forward transcriptions to content script
-    await session.connect((transcriptionText: string) => {
-      // Send transcription back to content script
-      console.log('text', transcriptionText);
-      browser.tabs.sendMessage(tabId, {
-        type: 'TRANSCRIPTION_RESULT',
-        text: transcriptionText
-      }).catch(err => {
-        console.error('Error sending transcription to content script:', err);
+    try {
+      await connectSession(sessionKey, sessionInfo);
+    } catch (error) {
+      // Out of quota: carry on with the next key unless none is left
+      const isQuotaError = describeSessionError(error).reason === QUOTA_EXCEEDED_REASON;
+      const failure = isQuotaError ? await rotateApiKey(sessionKey, sessionInfo) : error;
+      if (failure) {
+        await closeSession(sessionKey, sessionInfo);
+        throw isQuotaError ? new Error(String(failure)) : failure;
+      }
+    }
+
+    // Stopped while connecting: the stop disconnected the session, maybe before it was open
+    if (activeSessions.get(sessionKey) !== sessionInfo) {
+      await sessionInfo.session.disconnect().catch(err => {
+        console.error('Error disconnecting session:', err);
       });
-    });
+      return { success: false, error: STOPPED_WHILE_STARTING };
+    }
+
+    // The video's own audio couldn't be captured, so capture the whole tab's audio instead
+    if (captureMethod === 'tab') {
+      const isTabCaptured = [...activeSessions.values()]
+        .some(other => other !== sessionInfo && other.tabId === tabId && other.captureMethod === 'tab');
+
+      try {
+        if (isTabCaptured) {
+          throw new Error('Tab audio is already being captured for another video');
+        }
+        await startTabCapture(tabId, sessionKey, gateSilence, await loadAudioProcessingSettings());
+      } catch (error) {
+        await closeSession(sessionKey, sessionInfo);
+        throw error;
+      }
 
-    // Store session
-    activeSessions.set(tabId, { session, tabId });
+      // Stopped while the capture started, so the stop couldn't end it
+      if (activeSessions.get(sessionKey) !== sessionInfo) {
+        const hasOtherCaptures = [...activeSessions.values()].some(other => other.captureMethod === 'tab');
+        await stopTabCapture(sessionKey, hasOtherCaptures).catch(err => {
+          console.error('Error stopping tab capture:', err);
+        });
+        return { success: false, error: STOPPED_WHILE_STARTING };
+      }
+    }
 
-    console.log(`[Background] Gemini session started for tab ${tabId}`);
+    console.log(`[Background] Gemini session started for video ${videoId} in tab ${tabId} frame ${frameId}`);
     return { success: true, message: 'Session started successfully' };
 
   } catch (error) {
     console.error('Error starting Gemini session:', error);
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+
+    // Keep the reason around for the popup and the action badge, unless the video stopped anyway
+    const { reason } = describeSessionError(error);
+    if (isCancelled()) {
+      return { success: false, error: reason };
+    }
+    const failedSession: FailedSession = {
+      tabId,
+      frameId,
+      videoId,
+      status: createSessionStatus(ConnectionState.FAILED, reason)
+    };
+    failedSessions.set(sessionKey, failedSession);
+    broadcastSessionStatus(failedSession);
+
+    return { success: false, error: reason };
+  } finally {
+    if (pendingStarts.get(sessionKey) === startId) {
+      pendingStarts.delete(sessionKey);
+    }
+  }
+}
+
+// Connect the video's Gemini session, forwarding its transcriptions and status changes to the frame
+async function connectSession(sessionKey: string, sessionInfo: SessionInfo) {
+  const { session, tabId, frameId, videoId, apiKeyId } = sessionInfo;
+
+  const onStatusChange = (status: SessionStatus) => {
+    // Ignore sessions that were stopped, or replaced after their key ran out of quota
+    if (activeSessions.get(sessionKey) !== sessionInfo || sessionInfo.session !== session) {
+      return;
+    }
+
+    // Keep the popup's per-key status up to date
+    if (status.state === ConnectionState.CONNECTED) {
+      void updateApiKeyStatus(apiKeyId, { status: 'valid', reason: null });
+    } else if (status.state === ConnectionState.FAILED && status.reason === INVALID_API_KEY_REASON) {
+      void updateApiKeyStatus(apiKeyId, { status: 'invalid', reason: status.reason });
+    } else if (status.state === ConnectionState.FAILED && status.reason === QUOTA_EXCEEDED_REASON) {
+      void rotateApiKey(sessionKey, sessionInfo).then((failure) => {
+        if (failure && activeSessions.get(sessionKey) === sessionInfo) {
+          void failSession(sessionKey, sessionInfo, failure);
+        }
+      });
+      return;
+    }
+
+    // A failed session won't recover, so its video stops capturing
+    if (status.state === ConnectionState.FAILED) {
+      void failSession(sessionKey, sessionInfo, status.reason);
+      return;
+    }
+
+    sessionInfo.status = status;
+    broadcastSessionStatus(sessionInfo);
+  };
+
+  await session.connect((result: TranscriptionResult) => {
+    if (result.isFinal) {
+      console.log('text', result.text);
+    }
+    // Send transcription back to the frame that owns the video
+    browser.tabs.sendMessage(tabId, {
+      type: 'TRANSCRIPTION_RESULT',
+      videoId,
+      segmentId: result.segmentId,
+      text: result.text,
+      original: result.original,
+      isFinal: result.isFinal
+    }, { frameId }).catch(err => {
+      console.error('Error sending transcription to content script:', err);
+    });
+  }, onStatusChange);
+}
+
+// Move a session whose API key ran out of quota to the next usable key; its video keeps streaming
+// audio over the same port. Resolves with the reason when the session can't continue, else null.
+async function rotateApiKey(sessionKey: string, sessionInfo: SessionInfo): Promise<string | null> {
+  await updateApiKeyStatus(sessionInfo.apiKeyId, { status: 'quota-exceeded', reason: QUOTA_EXCEEDED_REASON });
+
+  const nextKey = getNextApiKey(await loadApiKeys(), sessionInfo.apiKeyId);
+  if (activeSessions.get(sessionKey) !== sessionInfo) {
+    return null; // Stopped in the meantime
+  }
+  if (!nextKey) {
+    return NO_USABLE_API_KEY_REASON;
+  }
+
+  console.log(`[Background] API key out of quota, switching video ${sessionInfo.videoId} in tab ${sessionInfo.tabId} to key "${nextKey.name}"`);
+  const previous = sessionInfo.session;
+  sessionInfo.session = createTranscriptionSession(nextKey.key, sessionInfo.profile);
+  sessionInfo.apiKeyId = nextKey.id;
+  previous.disconnect().catch(err => {
+    console.error('Error disconnecting session:', err);
+  });
+
+  // New sessions start on the working key too
+  await setActiveApiKeyId(nextKey.id);
+
+  try {
+    await connectSession(sessionKey, sessionInfo);
+    return null;
+  } catch (error) {
+    console.error('Error connecting with the next API key:', error);
+    const { reason } = describeSessionError(error);
+    return reason === QUOTA_EXCEEDED_REASON ? rotateApiKey(sessionKey, sessionInfo) : reason;
+  }
+}
+
+// Tell the video's frame and any open popup about a status change, and update the action badge
+function broadcastSessionStatus({ tabId, frameId, videoId, status }: SessionInfo | FailedSession) {
+  // The frame may be gone already, e.g. when its tab closed
+  browser.tabs.sendMessage(tabId, { type: 'SESSION_STATUS', videoId, status }, { frameId }).catch(err => {
+    console.debug('Error sending session status to content script:', err);
+  });
+
+  // Fails harmlessly when no popup is open
+  browser.runtime.sendMessage({ type: 'SESSION_STATUS_CHANGED', tabId, videoId, status }).catch(() => {});
+
+  void updateActionBadge(tabId);
+}
+
+// Summarize the tab's sessions on the toolbar icon, the most severe status first
+async function updateActionBadge(tabId: number) {
+  const badges = [...activeSessions.values(), ...failedSessions.values()]
+    .filter(entry => entry.tabId === tabId)
+    .map(entry => getStatusBadge(entry.status))
+    .filter((badge): badge is StatusBadge => badge !== null);
+  const badge = getMostSevereBadge(badges);
+  const { name } = browser.runtime.getManifest();
+
+  try {
+    await browser.action.setBadgeText({ tabId, text: badge?.shortLabel ?? '' });
+    await browser.action.setTitle({ tabId, title: badge ? `${name}: ${badge.title}` : name });
+    if (badge) {
+      await browser.action.setBadgeBackgroundColor({ tabId, color: STATUS_TONE_COLORS[badge.tone] });
+    }
+  } catch (error) {
+    // The tab may have closed in the meantime
+    console.debug('Error updating action badge:', error);
+  }
+}
+
+function createTranscriptionSession(apiKey: string, profile: TranslationProfile): TranscriptionSession {
+  if (profile.engine === 'batch') {
+    return new GeminiAudioUnderstandingSession(apiKey, buildSystemInstruction(profile, 'batch'));
   }
+  return new GeminiLiveSession(apiKey, buildSystemInstruction(profile, 'live'));
 }
 
-async function handleStopSession(tabId: number | undefined) {
+// Stop the oldest sessions until at most `limit` remain, counting the ones still starting,
+// telling their videos to stop capturing
+async function evictOldestSessions(limit: number) {
+  for (const [sessionKey, sessionInfo] of activeSessions) {
+    if (activeSessions.size + pendingStarts.size <= limit) {
+      return;
+    }
+
+    const reason = 'Too many videos translated at once';
+    console.log(`[Background] Session limit reached, stopping video ${sessionInfo.videoId} in tab ${sessionInfo.tabId}`);
+    notifySessionStopped(sessionInfo, reason);
+    await closeSession(sessionKey, sessionInfo, reason);
+  }
+}
+
+// Close a session that failed for good, keeping the failure around for the popup and the action badge
+async function failSession(sessionKey: string, sessionInfo: SessionInfo, reason: string | null) {
+  console.log(`[Background] Session failed for video ${sessionInfo.videoId} in tab ${sessionInfo.tabId}:`, reason);
+  notifySessionStopped(sessionInfo, reason ?? 'Session failed');
+  await closeSession(sessionKey, sessionInfo);
+
+  const { tabId, frameId, videoId } = sessionInfo;
+  const failedSession: FailedSession = {
+    tabId,
+    frameId,
+    videoId,
+    status: createSessionStatus(ConnectionState.FAILED, reason)
+  };
+  failedSessions.set(sessionKey, failedSession);
+  broadcastSessionStatus(failedSession);
+}
+
+// Tell the video's frame to stop capturing, as background closed its session
+function notifySessionStopped({ tabId, frameId, videoId }: SessionInfo, reason: string) {
+  browser.tabs.sendMessage(tabId, { type: 'SESSION_STOPPED', videoId, reason }, { frameId }).catch(err => {
+    console.error('Error notifying content script of stopped session:', err);
+  });
+}
+
+// Forget a session, stopping its tab capture and disconnecting it from Gemini.
+// A reason is shown to the user; sessions stopped on request just disappear.
+async function closeSession(sessionKey: string, sessionInfo: SessionInfo, reason: string | null = null) {
+  activeSessions.delete(sessionKey);
+  sessionInfo.status = createSessionStatus(ConnectionState.DISCONNECTED, reason);
+  broadcastSessionStatus(sessionInfo);
+
+  if (sessionInfo.captureMethod === 'tab') {
+    const hasOtherCaptures = [...activeSessions.values()].some(other => other.captureMethod === 'tab');
+    await stopTabCapture(sessionKey, hasOtherCaptures).catch(err => {
+      console.error('Error stopping tab capture:', err);
+    });
+  }
+
+  await sessionInfo.session.disconnect().catch(err => {
+    console.error('Error disconnecting session:', err);
+  });
+}
+
+async function handleStopSession(tabId: number | undefined, frameId: number, videoId: string) {
   if (!tabId) {
     return { success: false, error: 'No tab ID provided' };
   }
 
   try {
-    const sessionInfo = activeSessions.get(tabId);
+    const sessionKey = getSessionKey(tabId, frameId, videoId);
+    if (failedSessions.delete(sessionKey)) {
+      void updateActionBadge(tabId);
+    }
+
+    // A session still starting is cancelled; its start request cleans up when it resumes
+    if (pendingStarts.delete(sessionKey)) {
+      console.log(`[Background] Cancelling Gemini session start for video ${videoId} in tab ${tabId}`);
+      return { success: true, message: 'Session start cancelled' };
+    }
+
+    const sessionInfo = activeSessions.get(sessionKey);
     if (!sessionInfo) {
-      return { success: true, message: 'No active session for this tab' };
+      return { success: true, message: 'No active session for this video' };
     }
 
-    console.log(`[Background] Stopping Gemini session for tab ${tabId}`);
+    console.log(`[Background] Stopping Gemini session for video ${videoId} in tab ${tabId}`);
 
     // Disconnect and cleanup session
-    await sessionInfo.session.disconnect();
-    activeSessions.delete(tabId);
+    await closeSession(sessionKey, sessionInfo);
 
-    console.log(`[Background] Gemini session stopped for tab ${tabId}`);
+    console.log(`[Background] Gemini session stopped for video ${videoId} in tab ${tabId}`);
     return { success: true, message: 'Session stopped successfully' };
 
   } catch (error) {
@@ -186,36 +683,130 @@ async function handleStopSession(tabId: number | undefined) {
   }
 }
 
-async function handleAudioChunk(tabId: number | undefined, audioData: any) {
-  if (!tabId) {
-    return { success: false, error: 'No tab ID provided' };
+// Audio from a content script, or from the offscreen document's tab capture keyed by session key
+function handleAudioChunk(sessionKey: string, chunk: AudioPortChunk) {
+  const sessionInfo = activeSessions.get(sessionKey);
+  if (!sessionInfo) {
+    return;
   }
 
   try {
-    const sessionInfo = activeSessions.get(tabId);
-    if (!sessionInfo) {
-      return { success: false, error: 'No active session for this tab' };
-    }
-
     // Forward audio data to Gemini session
-    sessionInfo.session.sendAudioData(audioData);
+    const pcmData = decodeSamples(chunk.samples);
+    sessionInfo.session.sendAudioData({ pcmData, sampleRate: chunk.sampleRate });
+    sessionInfo.sentSeconds += pcmData.length / chunk.sampleRate;
+  } catch (error) {
+    console.error('Error handling audio chunk:', error);
+  }
+}
+
+// Silence held back by the sender's voice activity gate
+function handleSkippedAudio(sessionKey: string, seconds: number, streamEnd: boolean) {
+  const sessionInfo = activeSessions.get(sessionKey);
+  if (!sessionInfo) {
+    return;
+  }
+
+  sessionInfo.skippedSeconds += seconds;
+  if (streamEnd) {
+    sessionInfo.session.endAudioStream();
+  }
+}
+
+// Pass the top frame's SPA navigation on to the tab's embedded frames, whose site rules follow the page
+async function handlePageUrlChanged(tabId: number | undefined, frameId: number, url: string) {
+  if (!tabId || frameId !== 0) {
+    return { success: false, error: 'Only the top frame reports page URL changes' };
+  }
+
+  browser.tabs.sendMessage(tabId, { type: 'PAGE_URL_CHANGED', url }).catch(err => {
+    console.debug('Error forwarding page URL change:', err);
+  });
+  return { success: true };
+}
+
+// Sessions running in a tab, for the popup's status display
+async function handleGetTabSessions(tabId: number) {
+  const sessions = [...activeSessions.values()]
+    .filter(sessionInfo => sessionInfo.tabId === tabId)
+    .map(({ frameId, videoId, captureMethod, sentSeconds, skippedSeconds, status }) => ({
+      frameId,
+      videoId,
+      captureMethod,
+      sentSeconds,
+      skippedSeconds,
+      status
+    }));
+  const failures = [...failedSessions.values()].filter(failedSession => failedSession.tabId === tabId);
+
+  return { success: true, sessions, failures };
+}
+
+async function handleSaveTranscriptLine(
+  source: TranscriptSource,
+  text: string,
+  original: string,
+  start: number,
+  end?: number
+) {
+  try {
+    await appendTranscriptLine(source, text, original, start, end);
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving transcript line:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
 
+async function handleSaveTranscriptCoverage(source: TranscriptSource, range: TimeRange) {
+  try {
+    await addTranscriptCoverage(source, range);
     return { success: true };
+  } catch (error) {
+    console.error('Error saving transcript coverage:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
 
+async function handleGetCachedTranscript(source: TranscriptSource) {
+  try {
+    const transcript = await getTranscript(createTranscriptKey(source.pageUrl, source.videoSrc));
+    return {
+      success: true,
+      lines: transcript?.lines ?? [],
+      coverage: transcript?.coverage ?? []
+    };
   } catch (error) {
-    console.error('Error handling audio chunk:', error);
+    console.error('Error reading cached transcript:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
 // Cleanup sessions when tabs are closed
 browser.tabs.onRemoved.addListener((tabId) => {
-  const sessionInfo = activeSessions.get(tabId);
-  if (sessionInfo) {
-    console.log(`[Background] Tab ${tabId} closed, cleaning up session`);
-    sessionInfo.session.disconnect().catch(err => {
-      console.error('Error disconnecting session:', err);
-    });
-    activeSessions.delete(tabId);
+  forgetFailedSessions(tabId);
+  for (const [sessionKey, sessionInfo] of activeSessions) {
+    if (sessionInfo.tabId === tabId) {
+      console.log(`[Background] Tab ${tabId} closed, cleaning up session for video ${sessionInfo.videoId}`);
+      void closeSession(sessionKey, sessionInfo);
+    }
   }
 });
+
+// A new page starts without failures; its videos get new IDs anyway
+browser.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status === 'loading' && forgetFailedSessions(tabId)) {
+    void updateActionBadge(tabId);
+  }
+});
+
+function forgetFailedSessions(tabId: number): boolean {
+  let hadFailures = false;
+  for (const [sessionKey, failedSession] of failedSessions) {
+    if (failedSession.tabId === tabId) {
+      failedSessions.delete(sessionKey);
+      hadFailures = true;
+    }
+  }
+  return hadFailures;
+}
@@ -1,66 +1,376 @@
 import {
-  captureAudioFromVideo,
+  captureAudioFromMedia,
   stopAudioTracks,
-  type ExtendedHTMLVideoElement
+  type CaptureMethod,
+  type ExtendedHTMLMediaElement
 } from '~/utils/audio-capture';
+import { startAudioChunker, stopAudioChunker, type AudioChunker } from '~/utils/audio-chunker';
+import { loadAudioProcessingSettings } from '~/utils/audio-processing';
 import {
+  appendToRecording,
+  createProcessingRecordings,
+  downloadProcessingRecordings,
+  type ProcessingRecordings
+} from '~/utils/audio-recording';
+import {
+  AUDIO_PORT_PREFIX,
+  closeAudioSender,
+  openAudioSender,
+  sendAudioChunk,
+  type AudioSender
+} from '~/utils/audio-port';
+import {
+  applySubtitleSettings,
   createSubtitleOverlay,
-  updateSubtitles,
-  removeSubtitleOverlay
+  renderSubtitleOverlay,
+  removeSubtitleOverlay,
+  setOverlayEditMode,
+  setOverlayStatus,
+  applyOverlayLayout,
+  setSubtitleCues,
+  type SubtitleOverlay
 } from '~/utils/subtitle-overlay';
+import {
+  loadOverlayLayout,
+  saveOverlayLayout,
+  watchOverlayLayout,
+  type OverlayLayout
+} from '~/utils/overlay-layout';
+import { loadSessionSettings } from '~/utils/session-settings';
+import { resolveSiteSettings } from '~/utils/site-rules';
+import {
+  DEFAULT_SUBTITLE_SETTINGS,
+  loadSubtitleSettings,
+  watchSubtitleSettings,
+  type SubtitleSettings
+} from '~/utils/subtitle-settings';
+import {
+  downloadSubtitleFile,
+  recordSegment,
+  updateSegment,
+  type SubtitleSegment
+} from '~/utils/subtitle-export';
+import { getReadingDuration, splitIntoCues } from '~/utils/subtitle-segmenter';
+import { createSessionStatus, getStatusBadge, type StatusBadge } from '~/utils/session-status';
+import {
+  ConnectionState,
+  type SessionStatus,
+  type TranscriptionResult
+} from '~/utils/transcription-session';
+import {
+  createTranscriptKey,
+  isTimeCovered,
+  type TimeRange,
+  type TranscriptSource
+} from '~/utils/transcript-store';
 
 // Track whether translation is enabled
 let isEnabled = false;
 
+// The microphone source, when the user picked it instead of the page's media (top frame only)
+let microphoneInfo: VideoInfo | null = null;
+let microphoneStartedAt = 0;
+
+// Profile selected by the matching site rule (null: use the active profile)
+let siteProfileId: string | null = null;
+
+// Video detection is only started once translation is enabled on the page
+let isVideoSystemInitialized = false;
+
+// How overlays display cues, kept in sync with storage
+let subtitleSettings: SubtitleSettings = DEFAULT_SUBTITLE_SETTINGS;
+
+// Hostname of the tab's page, which site rules and overlay layouts belong to even in embedded frames
+let pageHostname = location.hostname;
+
+// Overlay position remembered for this site, and whether the user is currently moving it
+let overlayLayout: OverlayLayout | null = null;
+let isOverlayEditing = false;
+
+// Report live-captured coverage to the transcript history at least this often
+const COVERAGE_REPORT_SECONDS = 5;
+
+// A jump larger than this between timeupdates starts a new coverage range
+const COVERAGE_GAP_SECONDS = 2;
+
+// Shorter <audio> elements are notification and UI sounds, not worth a session
+const MIN_AUDIO_ELEMENT_SECONDS = 30;
+
+const AUDIO_PORT_CLOSED_REASON = 'Lost the connection to the extension; start playback again';
+
 export default defineContentScript({
   matches: [
     'https://*/*',
     'http://*/*',
   ],
+  // Embedded players often live in (cross-origin) iframes; each frame handles its own videos
+  allFrames: true,
 
-  async main() {
+  async main(ctx) {
     console.log('Video subtitle extension loaded');
 
-    // Load initial enabled state from storage
-    const { enabled } = await chrome.storage.local.get('enabled');
-    isEnabled = enabled ?? false;
-    console.log('[Content] Translation enabled:', isEnabled);
+    // Load subtitle display settings and re-apply them to every overlay when they change
+    subtitleSettings = await loadSubtitleSettings();
+    watchSubtitleSettings((settings) => {
+      subtitleSettings = settings;
+      videoInstances.forEach((videoInfo) => {
+        if (videoInfo.overlay) {
+          applySubtitleSettings(videoInfo.overlay, settings);
+        }
+      });
+    });
 
-    // Initialize video detection and audio capture
-    initVideoSubtitleSystem();
+    // Load the overlay position saved for this site and follow changes (e.g. a reset from the popup)
+    const pageUrl = await getPageUrl();
+    pageHostname = new URL(pageUrl).hostname;
+    overlayLayout = await loadOverlayLayout(pageHostname);
+    watchOverlayLayout(pageHostname, (layout) => {
+      overlayLayout = layout;
+      videoInstances.forEach((videoInfo) => {
+        if (videoInfo.overlay) {
+          applyOverlayLayout(videoInfo.overlay, layout);
+        }
+      });
+    });
 
     // Listen for transcription results from background script
     setupTranscriptionListener();
 
     // Listen for toggle messages from popup
     setupToggleListener();
+
+    // Listen for subtitle export requests from popup
+    setupExportListener();
+
+    // Listen for audio source changes from popup
+    setupAudioSourceListener();
+
+    // Listen for overlay edit mode requests from popup and keyboard shortcut
+    setupOverlayEditListener();
+    ctx.addEventListener(window, 'keydown', (event) => {
+      if (event.key === 'Escape' && isOverlayEditing) {
+        setOverlayEditing(false);
+      }
+    });
+
+    // Apply site rules for the initial page and on SPA navigation, which only the top frame sees
+    await applySiteSettings(pageUrl);
+    if (window === window.top) {
+      ctx.addEventListener(window, 'wxt:locationchange', () => {
+        void applySiteSettings(location.href);
+        notifyPageUrlChanged();
+      });
+    } else {
+      setupPageUrlListener();
+    }
   },
 });
 
+// The tab's page URL. Embedded frames can't read the top frame's location, so they ask background.
+async function getPageUrl(): Promise<string> {
+  if (window === window.top) {
+    return location.href;
+  }
+
+  try {
+    const response = await browser.runtime.sendMessage({ type: 'GET_PAGE_URL' });
+    if (response?.url) {
+      return response.url;
+    }
+  } catch (error) {
+    console.error('[Content] Error getting page URL:', error);
+  }
+  return location.href;
+}
+
+// Background passes the top frame's navigation on to the embedded frames
+function notifyPageUrlChanged() {
+  browser.runtime.sendMessage({ type: 'PAGE_URL_CHANGED', url: location.href }).catch(err => {
+    console.error('[Content] Error reporting page URL change:', err);
+  });
+}
+
+function setupPageUrlListener() {
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.type === 'PAGE_URL_CHANGED') {
+      void applySiteSettings(message.url);
+    }
+  });
+}
+
+// A video or audio element on the page, or the microphone played through a hidden audio element
 interface VideoInfo {
-  element: HTMLVideoElement;
-  audioStream: MediaStream | null;
-  audioContext: AudioContext | null;
-  audioProcessingTimer: number | null;
+  videoId: string; // Identifies this video's session in messages to and from background
+  element: HTMLMediaElement;
+  microphoneStream: MediaStream | null; // Set for the microphone source, which is captured directly
+  audioStream: MediaStream | null; // null while the background captures tab audio instead
+  audioChunker: AudioChunker | null;
+  audioSender: AudioSender | null; // Port streaming this video's audio to its background session
+  processingRecordings: ProcessingRecordings | null; // Debug WAV dump, downloaded when the translation ends
+  captureMethod: CaptureMethod | null;
   isCapturing: boolean;
-  subtitleElement: HTMLElement | null;
+  sessionState: ConnectionState | null; // Last state background reported for the video's session
+  status: StatusBadge | null; // Badge for the session's state, shown on the overlay
+  overlay: SubtitleOverlay | null;
+  segments: SubtitleSegment[]; // Every subtitle shown for this video, kept for export
+  pendingSegments: Map<string, SubtitleSegment>; // Interim segments by segmentId, until their final result
+  cache: CachedTranscript | null; // Transcript history for this video, used for replay
+  cacheKey: string | null;
+  isReplaying: boolean;
+  coverage: TimeRange | null; // Range live-captured in the current stretch of playback, up to the last final result
+  coverageReportedEnd: number;
+  capturedTime: number; // Playback time at the last timeupdate during capture, to notice jumps
 }
 
-const videoInstances = new Map<HTMLVideoElement, VideoInfo>();
+interface CachedTranscript {
+  lines: SubtitleSegment[];
+  coverage: TimeRange[];
+}
+
+const videoInstances = new Map<HTMLMediaElement, VideoInfo>();
+
+let nextVideoNumber = 1;
+
+function findVideoInfo(videoId: string): VideoInfo | undefined {
+  return [...videoInstances.values()].find(videoInfo => videoInfo.videoId === videoId);
+}
 
 // Listen for transcription results from background script
 function setupTranscriptionListener() {
   chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     if (message.type === 'TRANSCRIPTION_RESULT') {
-      console.log('[Content] Received transcription:', message.text);
+      if (message.isFinal) {
+        console.log('[Content] Received transcription:', message.text);
+      }
 
-      // Update subtitles for all active videos
-      videoInstances.forEach((videoInfo) => {
-        if (videoInfo.subtitleElement && videoInfo.isCapturing) {
-          updateSubtitles(message.text, videoInfo.subtitleElement);
+      // Update subtitles for the video the session belongs to
+      const videoInfo = findVideoInfo(message.videoId);
+      if (videoInfo?.overlay && videoInfo.isCapturing) {
+        handleTranscriptionResult(videoInfo, videoInfo.overlay, message);
+        if (message.isFinal) {
+          extendCoverage(videoInfo, videoInfo.element.currentTime);
         }
+      }
+    }
+
+    // Connection state of this video's session, shown as a badge on its overlay
+    if (message.type === 'SESSION_STATUS') {
+      const videoInfo = findVideoInfo(message.videoId);
+      if (videoInfo) {
+        applySessionStatus(videoInfo, message.status);
+      }
+    }
+
+    // Background stopped this video's session, e.g. to stay under the concurrent session limit or after it failed
+    if (message.type === 'SESSION_STOPPED') {
+      const videoInfo = findVideoInfo(message.videoId);
+      console.log('[Content] Session stopped by background:', message.reason);
+      if (videoInfo) {
+        stopAudioCapture(videoInfo, true);
+      }
+    }
+  });
+}
+
+// Record a result as a new segment, or refine the interim segment it belongs to in place
+function handleTranscriptionResult(videoInfo: VideoInfo, overlay: SubtitleOverlay, result: TranscriptionResult) {
+  const text = result.text.trim();
+  const original = result.original?.trim() ?? '';
+  const currentTime = videoInfo.element.currentTime;
+  let segment = videoInfo.pendingSegments.get(result.segmentId);
+
+  // A turn that ends without a translation leaves nothing on screen
+  if (result.isFinal && !text) {
+    if (segment) {
+      videoInfo.segments.splice(videoInfo.segments.indexOf(segment), 1);
+      videoInfo.pendingSegments.delete(result.segmentId);
+      renderSubtitleOverlay(overlay, true);
+    }
+    return;
+  }
+
+  if (!text && !original) {
+    return;
+  }
+
+  if (result.isFinal) {
+    videoInfo.pendingSegments.delete(result.segmentId);
+    if (segment) {
+      videoInfo.segments.splice(videoInfo.segments.indexOf(segment), 1);
+    }
+    recordFinalCues(videoInfo, text, original, segment?.start ?? currentTime, currentTime);
+  } else if (segment) {
+    updateSegment(videoInfo.segments, segment, text, currentTime, original);
+  } else {
+    // The cue starts at the video time the text arrived and the overlay follows playback
+    segment = recordSegment(videoInfo.segments, text, currentTime, original);
+    segment.tentative = true;
+    videoInfo.pendingSegments.set(result.segmentId, segment);
+  }
+
+  renderSubtitleOverlay(overlay, true); // The active cue's text may have changed in place
+}
+
+// Capture stopped mid-turn, so the interim text won't get its final result: keep it as final
+function finishPendingSegments(videoInfo: VideoInfo) {
+  const { overlay } = videoInfo;
+  if (overlay) {
+    for (const [segmentId, segment] of videoInfo.pendingSegments) {
+      handleTranscriptionResult(videoInfo, overlay, {
+        segmentId,
+        text: segment.text,
+        original: segment.original ?? '',
+        isFinal: true
       });
     }
+  }
+  videoInfo.pendingSegments.clear();
+}
+
+// Split a final result into readable cues timed by reading speed. They start where the
+// interim text did, but late enough that the last cue is fully shown from the current time.
+function recordFinalCues(videoInfo: VideoInfo, text: string, original: string, start: number, currentTime: number) {
+  const lines = splitIntoCues(text, subtitleSettings.maxCharsPerLine);
+  const durations = lines.map(getReadingDuration);
+  const leadIn = durations.slice(0, -1).reduce((sum, duration) => sum + duration, 0);
+
+  let cueStart = Math.max(start, currentTime - leadIn);
+  lines.forEach((line, index) => {
+    // The original can't be split to match, so it stays with the first cue
+    const cue = recordSegment(videoInfo.segments, line, cueStart, index === 0 ? original : '', durations[index]);
+    saveTranscriptLine(videoInfo, cue);
+    cueStart += durations[index];
+  });
+}
+
+function getTranscriptSource(videoInfo: VideoInfo): TranscriptSource {
+  // Each microphone recording is a transcript of its own
+  if (videoInfo.microphoneStream) {
+    return {
+      pageUrl: location.href,
+      videoSrc: `microphone:${videoInfo.videoId}:${microphoneStartedAt}`,
+      title: `Microphone · ${document.title}`
+    };
+  }
+
+  return {
+    pageUrl: location.href,
+    videoSrc: videoInfo.element.currentSrc,
+    title: document.title
+  };
+}
+
+// Persist the line in the background's transcript history
+function saveTranscriptLine(videoInfo: VideoInfo, segment: SubtitleSegment) {
+  browser.runtime.sendMessage({
+    type: 'SAVE_TRANSCRIPT_LINE',
+    source: getTranscriptSource(videoInfo),
+    text: segment.text,
+    original: segment.original ?? '',
+    start: segment.start,
+    end: segment.end
+  }).catch(err => {
+    console.error('[Content] Error saving transcript line:', err);
   });
 }
 
@@ -71,53 +381,248 @@ function setupToggleListener() {
       isEnabled = message.enabled;
       console.log('[Content] Translation toggled:', isEnabled);
 
-      if (!isEnabled) {
+      if (isEnabled) {
+        ensureVideoSubtitleSystem();
+      } else {
         // Stop all active captures when disabled
-        videoInstances.forEach((videoInfo) => {
-          if (videoInfo.isCapturing) {
-            stopAudioCapture(videoInfo);
-          }
+        stopAllSubtitles();
+      }
+    }
+  });
+}
+
+// Listen for subtitle export requests from popup
+function setupExportListener() {
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.type === 'EXPORT_SUBTITLES') {
+      // Prefer the capturing video, otherwise the one with the most captured subtitles
+      const candidates = [...videoInstances.values()].filter(videoInfo => getFinalSegments(videoInfo).length > 0);
+      const videoInfo = candidates.find(info => info.isCapturing)
+        ?? candidates.sort((a, b) => getFinalSegments(b).length - getFinalSegments(a).length)[0];
+
+      // Only a frame with subtitles answers; the popup reports when none does
+      if (!videoInfo) {
+        return;
+      }
+
+      const segments = getFinalSegments(videoInfo);
+      downloadSubtitleFile(segments, message.format, document.title);
+      sendResponse({ success: true, count: segments.length });
+    }
+  });
+}
+
+// Interim text still being refined is left out of exports
+function getFinalSegments(videoInfo: VideoInfo): SubtitleSegment[] {
+  return videoInfo.segments.filter(segment => !segment.tentative);
+}
+
+// Listen for audio source changes from popup; the microphone belongs to the top frame
+function setupAudioSourceListener() {
+  if (window !== window.top) {
+    return;
+  }
+
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.type === 'GET_AUDIO_SOURCE') {
+      sendResponse({
+        success: true,
+        source: microphoneInfo ? 'microphone' : 'page'
+      });
+    }
+
+    if (message.type === 'SET_AUDIO_SOURCE') {
+      const change = message.source === 'microphone'
+        ? startMicrophone(message.deviceId ?? null)
+        : stopMicrophone();
+
+      change
+        .then(() => sendResponse({ success: true }))
+        .catch((error) => {
+          console.error('[Content] Error switching audio source:', error);
+          sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
         });
+      return true;
+    }
+  });
+}
+
+// Transcribe the microphone instead of the page's media. The stream plays muted through a
+// hidden audio element, whose currentTime gives the cues a clock like any other media.
+async function startMicrophone(deviceId: string | null) {
+  if (!isEnabled) {
+    throw new Error('Translation is disabled on this page');
+  }
+
+  await stopMicrophone();
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { deviceId: { exact: deviceId } } : true
+  });
+
+  // Page media would compete for sessions and talk over the microphone
+  for (const videoInfo of videoInstances.values()) {
+    await endTranslation(videoInfo);
+  }
+
+  const audio = document.createElement('audio');
+  audio.muted = true;
+  audio.style.display = 'none';
+  audio.srcObject = stream;
+  document.body.appendChild(audio);
+
+  microphoneStartedAt = Date.now();
+  registerMediaElement(audio, stream);
+  microphoneInfo = videoInstances.get(audio) ?? null;
+
+  // Playing starts the subtitles through the usual play listener
+  await audio.play();
+  console.log('[Content] Microphone source started');
+}
+
+async function stopMicrophone() {
+  const videoInfo = microphoneInfo;
+  if (!videoInfo) {
+    return;
+  }
+
+  microphoneInfo = null;
+  await endTranslation(videoInfo);
+  stopAudioTracks(videoInfo.microphoneStream);
+  videoInstances.delete(videoInfo.element);
+  videoInfo.element.remove();
+  console.log('[Content] Microphone source stopped');
+
+  // Pick up page media that kept playing meanwhile
+  videoInstances.forEach((pageInfo, video) => {
+    if (!video.paused && !video.ended) {
+      startSubtitles(video, pageInfo);
+    }
+  });
+}
+
+// Listen for overlay edit mode requests from popup and keyboard shortcut
+function setupOverlayEditListener() {
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.type === 'TOGGLE_OVERLAY_EDIT') {
+      // Only frames with videos answer; the popup reports when none does
+      if (videoInstances.size === 0) {
+        return;
       }
+
+      setOverlayEditing(message.enabled ?? !isOverlayEditing);
+      sendResponse({ success: true, editing: isOverlayEditing });
+    }
+  });
+}
+
+function setOverlayEditing(enabled: boolean) {
+  isOverlayEditing = enabled;
+  console.log('[Content] Overlay edit mode:', enabled);
+
+  videoInstances.forEach((videoInfo) => {
+    // Give every video an overlay to drag, even before any subtitles arrive
+    if (enabled && !videoInfo.overlay) {
+      showSubtitleCues(videoInfo, videoInfo.segments);
+    } else if (videoInfo.overlay) {
+      setOverlayEditMode(videoInfo.overlay, enabled, handleOverlayLayoutChange);
     }
   });
 }
 
+function handleOverlayLayoutChange(layout: OverlayLayout) {
+  overlayLayout = layout;
+  saveOverlayLayout(pageHostname, layout).catch(err => {
+    console.error('[Content] Error saving overlay layout:', err);
+  });
+}
+
+// Resolve site rules for the page's URL and start or stop capture accordingly
+async function applySiteSettings(pageUrl: string) {
+  const settings = await resolveSiteSettings(pageUrl);
+  const profileChanged = settings.profileId !== siteProfileId;
+
+  isEnabled = settings.enabled;
+  siteProfileId = settings.profileId;
+  console.log('[Content] Site settings:', {
+    url: pageUrl,
+    enabled: isEnabled,
+    profileId: siteProfileId,
+    rule: settings.rule?.pattern ?? null
+  });
+
+  if (!isEnabled) {
+    await stopAllSubtitles();
+    return;
+  }
+
+  // Restart running sessions so they pick up the new profile
+  if (profileChanged) {
+    await stopAllSubtitles();
+  }
+
+  ensureVideoSubtitleSystem();
+
+  // Rules auto-enable translation, and profile switches restarted the sessions,
+  // so pick up videos that are already playing
+  if (settings.rule || profileChanged) {
+    videoInstances.forEach((videoInfo, video) => {
+      if (!video.paused && !video.ended) {
+        startSubtitles(video, videoInfo);
+      }
+    });
+  }
+}
+
+async function stopAllSubtitles() {
+  await stopMicrophone();
+  for (const videoInfo of videoInstances.values()) {
+    await endTranslation(videoInfo);
+  }
+}
+
+function ensureVideoSubtitleSystem() {
+  if (isVideoSystemInitialized) {
+    return;
+  }
+  isVideoSystemInitialized = true;
+  initVideoSubtitleSystem();
+}
+
 function initVideoSubtitleSystem() {
-  // Detect existing videos
-  detectExistingVideos();
+  // Detect existing video and audio elements
+  detectExistingMedia();
 
-  // Watch for dynamically added videos
-  observeNewVideos();
+  // Watch for dynamically added media elements
+  observeNewMedia();
 
   console.log('Video subtitle system initialized');
 }
 
-function detectExistingVideos() {
-  const videos = document.querySelectorAll('video');
-  console.log(`Found ${videos.length} existing video elements`);
+function detectExistingMedia() {
+  const mediaElements = document.querySelectorAll<HTMLMediaElement>('video, audio');
+  console.log(`Found ${mediaElements.length} existing media elements`);
 
-  videos.forEach(video => {
-    registerVideoElement(video as HTMLVideoElement);
+  mediaElements.forEach(media => {
+    registerMediaElement(media);
   });
 }
 
-function observeNewVideos() {
+function observeNewMedia() {
   const observer = new MutationObserver(mutations => {
     mutations.forEach(mutation => {
       mutation.addedNodes.forEach(node => {
         if (node.nodeType === Node.ELEMENT_NODE) {
           const element = node as Element;
 
-          // Check if the added node is a video element
-          if (element.tagName === 'VIDEO') {
-            registerVideoElement(element as HTMLVideoElement);
+          // Check if the added node is a media element
+          if (element instanceof HTMLMediaElement) {
+            registerMediaElement(element);
           }
 
-          // Check if the added node contains video elements
-          const videos = element.querySelectorAll('video');
-          videos.forEach(video => {
-            registerVideoElement(video as HTMLVideoElement);
+          // Check if the added node contains media elements
+          element.querySelectorAll<HTMLMediaElement>('video, audio').forEach(media => {
+            registerMediaElement(media);
           });
         }
       });
@@ -129,28 +634,41 @@ function observeNewVideos() {
     subtree: true
   });
 
-  console.log('Started observing for new video elements');
+  console.log('Started observing for new media elements');
 }
 
-function registerVideoElement(video: HTMLVideoElement) {
+function registerMediaElement(video: HTMLMediaElement, microphoneStream: MediaStream | null = null) {
   if (videoInstances.has(video)) {
     return; // Already registered
   }
 
-  console.log('Registering new video element:', {
+  console.log(`Registering new ${video.tagName.toLowerCase()} element:`, {
     src: video.src || video.currentSrc,
     duration: video.duration,
-    width: video.videoWidth,
-    height: video.videoHeight
+    microphone: microphoneStream !== null
   });
 
   const videoInfo: VideoInfo = {
+    videoId: `video-${nextVideoNumber++}`,
     element: video,
+    microphoneStream,
     audioStream: null,
-    audioContext: null,
-    audioProcessingTimer: null,
+    audioChunker: null,
+    audioSender: null,
+    processingRecordings: null,
+    captureMethod: null,
     isCapturing: false,
-    subtitleElement: null
+    sessionState: null,
+    status: null,
+    overlay: null,
+    segments: [],
+    pendingSegments: new Map(),
+    cache: null,
+    cacheKey: null,
+    isReplaying: false,
+    coverage: null,
+    coverageReportedEnd: 0,
+    capturedTime: 0
   };
 
   videoInstances.set(video, videoInfo);
@@ -159,46 +677,271 @@ function registerVideoElement(video: HTMLVideoElement) {
   setupVideoEventListeners(video, videoInfo);
 }
 
-function setupVideoEventListeners(video: HTMLVideoElement, videoInfo: VideoInfo) {
-  // Start audio capture when video starts playing
+function setupVideoEventListeners(video: HTMLMediaElement, videoInfo: VideoInfo) {
+  // Start subtitles (cached replay or audio capture) when video starts playing
   video.addEventListener('play', () => {
     console.log('Video started playing, attempting audio capture');
-    startAudioCapture(video, videoInfo);
+    startSubtitles(video, videoInfo);
   });
 
   // Stop audio capture when video pauses or ends
   video.addEventListener('pause', () => {
     console.log('Video paused, stopping audio capture');
-    stopAudioCapture(videoInfo);
+    stopSubtitles(videoInfo);
   });
 
-  video.addEventListener('ended', () => {
+  video.addEventListener('ended', async () => {
     console.log('Video ended, stopping audio capture');
-    stopAudioCapture(videoInfo);
+    await stopSubtitles(videoInfo);
+    downloadDebugAudio(videoInfo);
+  });
+
+  // Switch between cached replay and live capture as playback moves
+  video.addEventListener('timeupdate', () => {
+    handleTimeUpdate(video, videoInfo);
+  });
+
+  // Reload the cache after seeking so ranges captured earlier in this visit can be replayed
+  video.addEventListener('seeked', async () => {
+    await loadCachedTranscript(videoInfo, true);
+    handleTimeUpdate(video, videoInfo);
   });
 
   // Handle video removal
   video.addEventListener('remove', () => {
     console.log('Video element removed');
-    stopAudioCapture(videoInfo);
+    void endTranslation(videoInfo);
     videoInstances.delete(video);
   });
 }
 
-async function startAudioCapture(video: HTMLVideoElement, videoInfo: VideoInfo) {
-  // Check if translation is enabled
+// Replay cached subtitles when the current time was transcribed before, otherwise capture live
+async function startSubtitles(video: HTMLMediaElement, videoInfo: VideoInfo) {
   if (!isEnabled) {
-    console.log('[Content] Translation disabled, not starting capture');
+    console.log('[Content] Translation disabled, not starting subtitles');
+    return;
+  }
+
+  // Microphone time isn't media time, so there is nothing to replay
+  if (videoInfo.microphoneStream) {
+    await startAudioCapture(video, videoInfo);
+    return;
+  }
+
+  // Page media stays quiet while the microphone is the source
+  if (microphoneInfo) {
+    console.log('[Content] Microphone is the audio source, not starting page media subtitles');
+    return;
+  }
+
+  if (video instanceof HTMLAudioElement && !(await shouldTranslateAudioElement(video))) {
+    console.log('[Content] Not translating audio element (not enabled, or too short)');
+    return;
+  }
+
+  await loadCachedTranscript(videoInfo);
+
+  if (isCachedAt(videoInfo, video.currentTime)) {
+    startReplay(videoInfo);
+  } else {
+    await startAudioCapture(video, videoInfo);
+  }
+}
+
+// <audio> elements only start sessions when the user opted in, and only for longer media.
+// Streams (infinite duration) and media whose duration isn't known yet count as long.
+async function shouldTranslateAudioElement(audio: HTMLAudioElement): Promise<boolean> {
+  const { includeAudioElements } = await loadSessionSettings();
+  return includeAudioElements && !(audio.duration < MIN_AUDIO_ELEMENT_SECONDS);
+}
+
+async function stopSubtitles(videoInfo: VideoInfo) {
+  stopReplay(videoInfo);
+  await stopAudioCapture(videoInfo);
+}
+
+// Stop translating the video for good rather than pausing, e.g. when translation is turned off
+async function endTranslation(videoInfo: VideoInfo) {
+  await stopSubtitles(videoInfo);
+  removeOverlay(videoInfo);
+  downloadDebugAudio(videoInfo);
+}
+
+// Recordings span every stretch the video was captured, so they are downloaded once its translation ends
+function downloadDebugAudio(videoInfo: VideoInfo) {
+  downloadProcessingRecordings(videoInfo.processingRecordings);
+  videoInfo.processingRecordings = null;
+}
+
+// Load the transcript history for the video's current page URL and source
+async function loadCachedTranscript(videoInfo: VideoInfo, force = false) {
+  const source = getTranscriptSource(videoInfo);
+  const key = createTranscriptKey(source.pageUrl, source.videoSrc);
+  if (!force && videoInfo.cacheKey === key) {
+    return;
+  }
+
+  try {
+    const response = await browser.runtime.sendMessage({
+      type: 'GET_CACHED_TRANSCRIPT',
+      source
+    });
+
+    if (response?.success) {
+      videoInfo.cache = { lines: response.lines, coverage: response.coverage };
+      videoInfo.cacheKey = key;
+    }
+  } catch (error) {
+    console.error('[Content] Error loading cached transcript:', error);
+  }
+}
+
+function isCachedAt(videoInfo: VideoInfo, time: number): boolean {
+  return videoInfo.cache !== null && isTimeCovered(videoInfo.cache.coverage, time);
+}
+
+async function handleTimeUpdate(video: HTMLMediaElement, videoInfo: VideoInfo) {
+  if (!isEnabled || video.paused || video.ended) {
+    return;
+  }
+
+  const time = video.currentTime;
+  const cached = isCachedAt(videoInfo, time);
+
+  if (videoInfo.isReplaying) {
+    if (cached) {
+      return;
+    }
+
+    // Left the cached range: resume live capture
+    console.log('[Content] No cached subtitles at', time, '- resuming live capture');
+    stopReplay(videoInfo);
+    await startAudioCapture(video, videoInfo);
+  } else if (videoInfo.isCapturing) {
+    if (!cached) {
+      trackCoverage(videoInfo, time);
+      return;
+    }
+
+    // Entered a cached range: end the Gemini session and replay instead
+    console.log('[Content] Cached subtitles available at', time, '- stopping live capture');
+    videoInfo.isReplaying = true;
+    await stopAudioCapture(videoInfo);
+    startReplay(videoInfo);
+  }
+}
+
+function startReplay(videoInfo: VideoInfo) {
+  if (!videoInfo.cache) {
     return;
   }
 
-  // Stop all other capturing videos to ensure only 1 Gemini Live session
-  for (const [otherVideo, otherVideoInfo] of videoInstances) {
-    if (otherVideo !== video && otherVideoInfo.isCapturing) {
-      console.log('Stopping other video capture to start new session');
-      await stopAudioCapture(otherVideoInfo);
+  console.log('[Content] Replaying cached subtitles');
+  videoInfo.isReplaying = true;
+  showSubtitleCues(videoInfo, videoInfo.cache.lines);
+}
+
+function stopReplay(videoInfo: VideoInfo) {
+  videoInfo.isReplaying = false;
+}
+
+// Point the video's overlay at a cue timeline, creating the overlay on first use
+function showSubtitleCues(videoInfo: VideoInfo, cues: SubtitleSegment[]) {
+  if (videoInfo.overlay) {
+    setSubtitleCues(videoInfo.overlay, cues);
+  } else {
+    videoInfo.overlay = createSubtitleOverlay(videoInfo.element, cues, subtitleSettings, overlayLayout);
+    setOverlayStatus(videoInfo.overlay, videoInfo.status);
+    if (isOverlayEditing) {
+      setOverlayEditMode(videoInfo.overlay, true, handleOverlayLayoutChange);
     }
   }
+}
+
+// Failures need an overlay to be seen, so one is created if capture never got that far
+function applySessionStatus(videoInfo: VideoInfo, status: SessionStatus) {
+  // Audio played while the session isn't connected may never be transcribed
+  videoInfo.sessionState = status.state;
+  if (status.state !== ConnectionState.CONNECTED) {
+    endCoverage(videoInfo);
+  }
+
+  videoInfo.status = getStatusBadge(status);
+  if (!videoInfo.overlay && videoInfo.status) {
+    showSubtitleCues(videoInfo, videoInfo.segments);
+  }
+  if (videoInfo.overlay) {
+    setOverlayStatus(videoInfo.overlay, videoInfo.status);
+  }
+}
+
+function removeOverlay(videoInfo: VideoInfo) {
+  removeSubtitleOverlay(videoInfo.overlay);
+  videoInfo.overlay = null;
+}
+
+// Start a live-captured range where playback is while the session is connected, and a new one
+// after a jump. Final results extend the range, so re-watching can replay it.
+function trackCoverage(videoInfo: VideoInfo, time: number) {
+  if (videoInfo.microphoneStream) {
+    return;
+  }
+
+  const previousTime = videoInfo.capturedTime;
+  videoInfo.capturedTime = time;
+
+  if (videoInfo.sessionState !== ConnectionState.CONNECTED) {
+    return;
+  }
+
+  if (!videoInfo.coverage || time < previousTime || time - previousTime > COVERAGE_GAP_SECONDS) {
+    endCoverage(videoInfo);
+    videoInfo.coverage = { start: time, end: time };
+    videoInfo.coverageReportedEnd = time;
+  }
+}
+
+// A final result arrived at `time`, so the audio played before it was transcribed
+function extendCoverage(videoInfo: VideoInfo, time: number) {
+  const range = videoInfo.coverage;
+  if (!range || videoInfo.sessionState !== ConnectionState.CONNECTED || time <= range.end) {
+    return;
+  }
+
+  range.end = time;
+  if (range.end - videoInfo.coverageReportedEnd >= COVERAGE_REPORT_SECONDS) {
+    reportCoverage(videoInfo);
+  }
+}
+
+// Report the range up to the last final result and stop extending it
+function endCoverage(videoInfo: VideoInfo) {
+  reportCoverage(videoInfo);
+  videoInfo.coverage = null;
+}
+
+function reportCoverage(videoInfo: VideoInfo) {
+  const range = videoInfo.coverage;
+  if (!range || range.end <= range.start || range.end === videoInfo.coverageReportedEnd) {
+    return;
+  }
+
+  videoInfo.coverageReportedEnd = range.end;
+  browser.runtime.sendMessage({
+    type: 'SAVE_TRANSCRIPT_COVERAGE',
+    source: getTranscriptSource(videoInfo),
+    range: { ...range }
+  }).catch(err => {
+    console.error('[Content] Error saving transcript coverage:', err);
+  });
+}
+
+async function startAudioCapture(video: HTMLMediaElement, videoInfo: VideoInfo) {
+  // Check if translation is enabled
+  if (!isEnabled) {
+    console.log('[Content] Translation disabled, not starting capture');
+    return;
+  }
 
   if (videoInfo.isCapturing) {
     console.log('Already capturing audio from this video');
@@ -206,21 +949,27 @@ async function startAudioCapture(video: HTMLVideoElement, videoInfo: VideoInfo)
   }
 
   try {
-    // Capture audio from video using utility
-    const audioResult = await captureAudioFromVideo(video as ExtendedHTMLVideoElement);
+    // Capture audio from video using utility; DRM players and cross-origin media without CORS
+    // can't be captured, so the background captures the whole tab's audio instead
+    const audioResult = videoInfo.microphoneStream
+      ? { audioStream: videoInfo.microphoneStream.clone() }
+      : await captureAudioFromMedia(video as ExtendedHTMLMediaElement);
 
     if (!audioResult) {
-      console.error('Failed to capture audio from video');
-      return;
+      console.warn('[Content] Failed to capture audio from video, falling back to tab audio capture');
     }
 
-    videoInfo.audioStream = audioResult.audioStream;
+    videoInfo.audioStream = audioResult?.audioStream ?? null;
+    videoInfo.captureMethod = videoInfo.microphoneStream ? 'microphone' : audioResult ? 'element' : 'tab';
     videoInfo.isCapturing = true;
 
     // Setup Gemini Live API connection via background
     const sessionStarted = await setupGeminiConnection(videoInfo);
     if (!sessionStarted) {
       console.error('[Content] Failed to start Gemini session');
+      stopAudioTracks(videoInfo.audioStream);
+      videoInfo.audioStream = null;
+      videoInfo.isCapturing = false;
       return;
     }
 
@@ -243,7 +992,10 @@ async function setupGeminiConnection(videoInfo: VideoInfo) {
 
     // Send message to background to start Gemini session
     const response = await chrome.runtime.sendMessage({
-      type: 'START_GEMINI_SESSION'
+      type: 'START_GEMINI_SESSION',
+      videoId: videoInfo.videoId,
+      profileId: siteProfileId,
+      captureMethod: videoInfo.captureMethod
     });
 
     if (!response?.success) {
@@ -251,8 +1003,8 @@ async function setupGeminiConnection(videoInfo: VideoInfo) {
       return false;
     }
 
-    // Create subtitle overlay
-    videoInfo.subtitleElement = createSubtitleOverlay(videoInfo.element);
+    // Show this video's live cues in the subtitle overlay
+    showSubtitleCues(videoInfo, videoInfo.segments);
 
     console.log('[Content] Gemini session started successfully');
     return true;
@@ -269,113 +1021,93 @@ async function startAudioProcessing(videoInfo: VideoInfo): Promise<void> {
   }
 
   try {
-    const targetSampleRate = 16000;
-    const chunkDurationMs = 250;
-
-    // Create AudioContext for processing
-    videoInfo.audioContext = new AudioContext({ sampleRate: targetSampleRate });
-    const mediaStreamSource = videoInfo.audioContext.createMediaStreamSource(videoInfo.audioStream);
-
-    // Create AnalyserNode for audio data capture
-    const analyserNode = videoInfo.audioContext.createAnalyser();
-    const samplesNeeded = targetSampleRate * chunkDurationMs / 1000;
-    analyserNode.fftSize = Math.pow(2, Math.ceil(Math.log2(samplesNeeded)));
-    analyserNode.smoothingTimeConstant = 0;
-
-    // Connect audio graph
-    mediaStreamSource.connect(analyserNode);
-
-    const bufferLength = analyserNode.fftSize;
-    const audioBuffer = new Float32Array(bufferLength);
-
-    // Start periodic audio capture
-    videoInfo.audioProcessingTimer = window.setInterval(() => {
-      analyserNode.getFloatTimeDomainData(audioBuffer);
+    // Stream chunks to the background session over this video's port, holding back silence
+    const { gateSilence } = await loadSessionSettings();
+    const audioSender = openAudioSender(`${AUDIO_PORT_PREFIX}${videoInfo.videoId}`, gateSilence, () => {
+      // Background lost the session along with the port, e.g. when its service worker restarted
+      console.error('[Content] Background closed the audio port');
+      void stopAudioCapture(videoInfo, true);
+      applySessionStatus(videoInfo, createSessionStatus(ConnectionState.FAILED, AUDIO_PORT_CLOSED_REASON));
+    });
 
-      // Convert to Int16 PCM
-      const pcmData = convertFloat32ToInt16PCM(audioBuffer);
+    // Optionally clean up speech first, recording it before and after for comparison
+    const processing = await loadAudioProcessingSettings();
+    const recordings = processing.enabled && processing.saveDebugAudio
+      ? videoInfo.processingRecordings ??= createProcessingRecordings()
+      : null;
 
-      // Convert to base64
-      const base64Data = arrayBufferToBase64(pcmData.buffer);
+    const audioChunker = await startAudioChunker(videoInfo.audioStream, (audioData) => {
+      if (recordings) {
+        appendToRecording(recordings.after, audioData);
+      }
+      sendAudioChunk(audioSender, audioData);
+    }, {
+      processing,
+      onRawChunk: recordings ? (audioData) => appendToRecording(recordings.before, audioData) : undefined
+    }).catch((error) => {
+      closeAudioSender(audioSender);
+      throw error;
+    });
 
-      // Send to background script
-      chrome.runtime.sendMessage({
-        type: 'SEND_AUDIO_CHUNK',
-        audioData: {
-          data: base64Data,
-          mimeType: 'audio/pcm;rate=16000'
-        }
-      }).catch(err => {
-        console.error('[Content] Error sending audio chunk:', err);
-      });
-    }, chunkDurationMs);
+    // Capture may have been stopped while the worklet was loading
+    if (!videoInfo.isCapturing) {
+      stopAudioChunker(audioChunker);
+      closeAudioSender(audioSender);
+      return;
+    }
+    videoInfo.audioChunker = audioChunker;
+    videoInfo.audioSender = audioSender;
 
     console.log('[Content] Audio processing started');
   } catch (error) {
     console.error('[Content] Error starting audio processing:', error);
+    applySessionStatus(videoInfo, createSessionStatus(ConnectionState.FAILED, 'Audio could not be processed'));
   }
 }
 
-function convertFloat32ToInt16PCM(float32Data: Float32Array): Int16Array {
-  const int16Data = new Int16Array(float32Data.length);
-  for (let i = 0; i < float32Data.length; i++) {
-    const sample = Math.max(-1, Math.min(1, float32Data[i]));
-    int16Data[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-  }
-  return int16Data;
-}
-
-function arrayBufferToBase64(buffer: ArrayBufferLike): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
 function stopAudioProcessing(videoInfo: VideoInfo): void {
-  if (videoInfo.audioProcessingTimer) {
-    clearInterval(videoInfo.audioProcessingTimer);
-    videoInfo.audioProcessingTimer = null;
-  }
-
-  if (videoInfo.audioContext) {
-    videoInfo.audioContext.close();
-    videoInfo.audioContext = null;
-  }
+  stopAudioChunker(videoInfo.audioChunker);
+  videoInfo.audioChunker = null;
+  closeAudioSender(videoInfo.audioSender);
+  videoInfo.audioSender = null;
 
   console.log('[Content] Audio processing stopped');
 }
 
-async function stopAudioCapture(videoInfo: VideoInfo) {
+// sessionClosed: background closed the session itself, so there is nothing to ask it to stop
+async function stopAudioCapture(videoInfo: VideoInfo, sessionClosed = false) {
   if (!videoInfo.isCapturing) {
     return;
   }
 
   console.log('[Content] Stopping audio capture');
 
+  finishPendingSegments(videoInfo);
+
+  // Record how far live capture got before it stops
+  endCoverage(videoInfo);
+
   // Stop local audio processing
   stopAudioProcessing(videoInfo);
 
   // Stop Gemini session in background
-  try {
-    await chrome.runtime.sendMessage({
-      type: 'STOP_GEMINI_SESSION'
-    });
-  } catch (error) {
-    console.error('[Content] Error stopping Gemini session:', error);
+  if (!sessionClosed) {
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'STOP_GEMINI_SESSION',
+        videoId: videoInfo.videoId
+      });
+    } catch (error) {
+      console.error('[Content] Error stopping Gemini session:', error);
+    }
   }
 
-  // Remove subtitle overlay using utility
-  removeSubtitleOverlay(videoInfo.subtitleElement);
-  videoInfo.subtitleElement = null;
-
   // Stop all audio tracks using utility
   stopAudioTracks(videoInfo.audioStream);
   videoInfo.audioStream = null;
 
   videoInfo.isCapturing = false;
+  videoInfo.captureMethod = null;
 
   console.log('[Content] Audio capture stopped');
 }
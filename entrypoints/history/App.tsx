@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import {
+  deleteTranscript,
+  searchTranscripts,
+  type Transcript,
+  type TranscriptSearchResult
+} from '~/utils/transcript-store';
+import { downloadSubtitleFile, type SubtitleSegment } from '~/utils/subtitle-export';
+import './App.css';
+
+function formatTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+function App() {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<TranscriptSearchResult[]>([]);
+  const [selected, setSelected] = useState<Transcript | null>(null);
+  const [error, setError] = useState('');
+
+  // Re-run the search whenever the query changes (empty query lists everything)
+  useEffect(() => {
+    let cancelled = false;
+    const search = async () => {
+      try {
+        const found = await searchTranscripts(query);
+        if (!cancelled) {
+          setResults(found);
+          setError('');
+        }
+      } catch (err) {
+        setError('Failed to load transcripts');
+        console.error('Transcript store error:', err);
+      }
+    };
+    search();
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const handleDelete = async (transcript: Transcript) => {
+    try {
+      await deleteTranscript(transcript.key);
+      setResults(results.filter(result => result.transcript.key !== transcript.key));
+      if (selected?.key === transcript.key) {
+        setSelected(null);
+      }
+    } catch (err) {
+      setError('Failed to delete transcript');
+      console.error('Delete error:', err);
+    }
+  };
+
+  const needle = query.trim().toLowerCase();
+  const lineMatches = (line: SubtitleSegment) =>
+    line.text.toLowerCase().includes(needle) || (line.original ?? '').toLowerCase().includes(needle);
+
+  return (
+    <div className="history-container">
+      <h1>Transcript History</h1>
+
+      <input
+        className="search-input"
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search subtitles, titles and URLs"
+      />
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="history-layout">
+        <ul className="session-list">
+          {results.length === 0 && <li className="empty">No transcripts found</li>}
+          {results.map(({ transcript, matches }) => (
+            <li
+              key={transcript.key}
+              className={selected?.key === transcript.key ? 'session selected' : 'session'}
+              onClick={() => setSelected(transcript)}
+            >
+              <div className="session-title">{transcript.title || transcript.pageUrl}</div>
+              <div className="session-meta">
+                {new Date(transcript.updatedAt).toLocaleString()} · {transcript.lines.length} lines
+                {needle && matches.length > 0 && ` · ${matches.length} matches`}
+              </div>
+              {matches.slice(0, 2).map((line, index) => (
+                <div key={index} className="session-match">
+                  [{formatTime(line.start)}] {line.text}
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+
+        {selected && (
+          <div className="session-detail">
+            <h2>{selected.title || selected.pageUrl}</h2>
+            <a href={selected.pageUrl} target="_blank" rel="noreferrer">{selected.pageUrl}</a>
+
+            <div className="detail-actions">
+              <button onClick={() => downloadSubtitleFile(selected.lines, 'srt', selected.title)}>Download .srt</button>
+              <button onClick={() => downloadSubtitleFile(selected.lines, 'vtt', selected.title)}>Download .vtt</button>
+              <button className="delete-button" onClick={() => handleDelete(selected)}>Delete</button>
+            </div>
+
+            <ol className="transcript-lines">
+              {selected.lines.map((line, index) => (
+                <li
+                  key={index}
+                  className={needle && lineMatches(line) ? 'line highlighted' : 'line'}
+                >
+                  <span className="line-time">{formatTime(line.start)}</span>
+                  <span className="line-text">
+                    {line.original && <span className="line-original">{line.original}</span>}
+                    {line.text}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default App;
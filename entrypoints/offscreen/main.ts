@@ -0,0 +1,87 @@
+// Offscreen document capturing tab audio for the background, which can't use getUserMedia itself
+import { stopAudioTracks } from '~/utils/audio-capture';
+import { startAudioChunker, stopAudioChunker, type AudioChunker } from '~/utils/audio-chunker';
+import type { AudioProcessingSettings } from '~/utils/audio-processing';
+import {
+  OFFSCREEN_AUDIO_PORT_PREFIX,
+  closeAudioSender,
+  openAudioSender,
+  sendAudioChunk,
+  type AudioSender
+} from '~/utils/audio-port';
+
+interface TabCapture {
+  stream: MediaStream;
+  chunker: AudioChunker;
+  sender: AudioSender;
+  playbackContext: AudioContext; // Capturing mutes the tab, so its audio is played back here
+}
+
+const captures = new Map<string, TabCapture>();
+
+browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  switch (message.type) {
+    case 'OFFSCREEN_START_CAPTURE':
+      startCapture(message.captureId, message.streamId, message.gateSilence ?? true, message.processing)
+        .then(() => sendResponse({ success: true }))
+        .catch((error) => {
+          console.error('[Offscreen] Error starting tab capture:', error);
+          sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+        });
+      return true;
+
+    case 'OFFSCREEN_STOP_CAPTURE':
+      stopCapture(message.captureId);
+      sendResponse({ success: true });
+      return;
+  }
+});
+
+async function startCapture(
+  captureId: string,
+  streamId: string,
+  gateSilence: boolean,
+  processing: AudioProcessingSettings | undefined
+) {
+  stopCapture(captureId);
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      mandatory: {
+        chromeMediaSource: 'tab',
+        chromeMediaSourceId: streamId
+      }
+    } as MediaTrackConstraints,
+    video: false
+  });
+
+  const playbackContext = new AudioContext();
+  playbackContext.createMediaStreamSource(stream).connect(playbackContext.destination);
+
+  // Background lost its session along with the port, so the capture has nowhere to go
+  const sender = openAudioSender(`${OFFSCREEN_AUDIO_PORT_PREFIX}${captureId}`, gateSilence, () => {
+    console.warn('[Offscreen] Background closed the audio port:', captureId);
+    stopCapture(captureId);
+  });
+  // The debug WAV dump is only offered for audio captured in the page
+  const chunker = await startAudioChunker(stream, (audioData) => {
+    sendAudioChunk(sender, audioData);
+  }, { processing });
+
+  captures.set(captureId, { stream, chunker, sender, playbackContext });
+  console.log('[Offscreen] Tab audio capture started:', captureId);
+}
+
+function stopCapture(captureId: string) {
+  const capture = captures.get(captureId);
+  if (!capture) {
+    return;
+  }
+
+  stopAudioChunker(capture.chunker);
+  closeAudioSender(capture.sender);
+  void capture.playbackContext.close();
+  stopAudioTracks(capture.stream);
+  captures.delete(captureId);
+  console.log('[Offscreen] Tab audio capture stopped:', captureId);
+}
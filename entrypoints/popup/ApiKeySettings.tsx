@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import {
+  QUOTA_COOLDOWN_MS,
+  getActiveApiKeyId,
+  loadApiKeys,
+  maskApiKey,
+  setActiveApiKeyId,
+  watchApiKeys,
+  type ApiKeyCheck,
+  type ApiKeyEntry,
+  type ApiKeyStatus
+} from '~/utils/api-keys';
+import { STATUS_TONE_COLORS, type StatusTone } from '~/utils/session-status';
+
+const API_KEY_STATUS_BADGES: Record<ApiKeyStatus, { label: string; tone: StatusTone }> = {
+  unchecked: { label: 'Not checked', tone: 'info' },
+  valid: { label: 'Valid', tone: 'ok' },
+  invalid: { label: 'Invalid', tone: 'error' },
+  'quota-exceeded': { label: 'Out of quota', tone: 'warning' },
+};
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Ask background to check a key with a live request; stored keys get the result recorded
+async function requestApiKeyCheck(apiKey: string, keyId?: string): Promise<ApiKeyCheck> {
+  const response = await browser.runtime.sendMessage({ type: 'VALIDATE_API_KEY', apiKey, keyId });
+  if (!response?.success) {
+    throw new Error(response?.error ?? 'Failed to check API key');
+  }
+  return { status: response.status, reason: response.isValid ? null : response.message };
+}
+
+function ApiKeySettings() {
+  const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [name, setName] = useState('');
+  const [key, setKey] = useState('');
+  const [checkingId, setCheckingId] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  // Load the keys from storage on component mount, and follow the changes background makes to them
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [storedKeys, storedActiveId] = await Promise.all([loadApiKeys(), getActiveApiKeyId()]);
+        setApiKeys(storedKeys);
+        setActiveId(storedActiveId ?? storedKeys[0]?.id ?? '');
+      } catch (err) {
+        setError('Failed to load API keys');
+        console.error('Storage error:', err);
+      }
+    };
+    load();
+    return watchApiKeys(load);
+  }, []);
+
+  const showResult = (message: string, isError: boolean) => {
+    setError(isError ? message : '');
+    setSuccess(isError ? '' : message);
+  };
+
+  // Background checks and stores the key, so it can't overwrite a status a session just recorded
+  const handleAdd = async () => {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) {
+      showResult('API key cannot be empty', true);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'SET_API_KEY', apiKey: trimmedKey, name });
+      if (!response?.success) {
+        showResult(response?.error ?? 'Failed to save API key', true);
+        return;
+      }
+
+      setName('');
+      setKey('');
+      showResult(response.status === 'valid'
+        ? 'API key checked and saved!'
+        : `API key saved, but could not be checked: ${response.message}`, false);
+    } catch (err) {
+      showResult('Failed to save API key', true);
+      console.error('Save error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCheck = async (entry: ApiKeyEntry) => {
+    setCheckingId(entry.id);
+    try {
+      const check = await requestApiKeyCheck(entry.key, entry.id);
+      showResult(check.status === 'valid'
+        ? `"${entry.name}" is valid`
+        : `"${entry.name}": ${check.reason ?? 'Check failed'}`, check.status !== 'valid');
+    } catch (err) {
+      showResult('Failed to check API key', true);
+      console.error('Check error:', err);
+    } finally {
+      setCheckingId('');
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    setActiveId(id);
+    try {
+      await setActiveApiKeyId(id);
+      setError('');
+    } catch (err) {
+      showResult('Failed to select API key', true);
+      console.error('Save error:', err);
+    }
+  };
+
+  const handleRemove = async (entry: ApiKeyEntry) => {
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'REMOVE_API_KEY', keyId: entry.id });
+      if (!response?.success) {
+        showResult(response?.error ?? 'Failed to remove API key', true);
+        return;
+      }
+      showResult(`"${entry.name}" removed`, false);
+    } catch (err) {
+      showResult('Failed to remove API key', true);
+      console.error('Remove error:', err);
+    }
+  };
+
+  const renderStatus = (entry: ApiKeyEntry) => {
+    const badge = API_KEY_STATUS_BADGES[entry.status];
+    // Keys out of quota are skipped by sessions for a while, then tried again
+    const retryAt = entry.status === 'quota-exceeded' && entry.statusChangedAt !== null
+      ? entry.statusChangedAt + QUOTA_COOLDOWN_MS
+      : null;
+    return (
+      <>
+        <span className="session-state" style={{ background: STATUS_TONE_COLORS[badge.tone] }}>
+          {badge.label}
+        </span>
+        {retryAt !== null ? (
+          retryAt > Date.now() && <div className="session-state-reason">Skipped until {formatTime(retryAt)}</div>
+        ) : (
+          entry.statusReason && <div className="session-state-reason">{entry.statusReason}</div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="api-key-settings">
+      <h2>API Key Settings</h2>
+
+      {apiKeys.length === 0 ? (
+        <p className="field-hint">Add a Gemini API key to start translating.</p>
+      ) : (
+        <ul className="api-key-list">
+          {apiKeys.map(entry => (
+            <li key={entry.id}>
+              <label className="api-key-name">
+                <input
+                  type="radio"
+                  name="activeApiKey"
+                  checked={entry.id === activeId}
+                  onChange={() => handleSelect(entry.id)}
+                />
+                {entry.name}
+              </label>
+              {' '}
+              <code>{maskApiKey(entry.key)}</code>
+              {' · '}
+              {renderStatus(entry)}
+              <div className="button-group api-key-actions">
+                <button onClick={() => handleCheck(entry)} disabled={checkingId === entry.id}>
+                  {checkingId === entry.id ? 'Checking...' : 'Check'}
+                </button>
+                <button onClick={() => handleRemove(entry)} className="clear-button">
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {apiKeys.length > 1 && (
+        <p className="field-hint">
+          Sessions start with the selected key and switch to the next one when a key runs out of quota.
+        </p>
+      )}
+
+      <div className="input-group">
+        <label htmlFor="apiKeyName">Name:</label>
+        <input
+          id="apiKeyName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={`Key ${apiKeys.length + 1}`}
+          disabled={loading}
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="apiKey">Gemini API Key:</label>
+        <input
+          id="apiKey"
+          type="text"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          placeholder="Enter your API key"
+          disabled={loading}
+        />
+      </div>
+
+      <div className="button-group">
+        <button
+          onClick={handleAdd}
+          disabled={loading || !key.trim()}
+        >
+          {loading ? 'Checking...' : 'Add key'}
+        </button>
+      </div>
+
+      {/* Success message display */}
+      {success && <div className="success-message">{success}</div>}
+
+      {/* Error message display */}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default ApiKeySettings;
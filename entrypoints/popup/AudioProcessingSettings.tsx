@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import {
+  DEFAULT_AUDIO_PROCESSING_SETTINGS,
+  loadAudioProcessingSettings,
+  saveAudioProcessingSettings,
+  type AudioProcessingSettings as AudioProcessingSettingsValues
+} from '~/utils/audio-processing';
+
+function AudioProcessingSettings() {
+  const [settings, setSettings] = useState<AudioProcessingSettingsValues>(DEFAULT_AUDIO_PROCESSING_SETTINGS);
+  const [error, setError] = useState('');
+
+  // Load audio processing settings from storage on component mount
+  useEffect(() => {
+    loadAudioProcessingSettings()
+      .then(setSettings)
+      .catch((err) => {
+        setError('Failed to load audio processing settings');
+        console.error('Storage error:', err);
+      });
+  }, []);
+
+  // Settings are saved immediately; content scripts read them when capture starts
+  const updateSettings = async (changes: Partial<AudioProcessingSettingsValues>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    try {
+      await saveAudioProcessingSettings(next);
+      setError('');
+    } catch (err) {
+      setError('Failed to save audio processing settings');
+      console.error('Save error:', err);
+    }
+  };
+
+  return (
+    <div className="audio-processing-settings">
+      <h2>Audio Processing</h2>
+
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => updateSettings({ enabled: e.target.checked })}
+        />
+        Clean up speech before transcribing
+      </label>
+      <p className="field-hint">Helps with background music and crowd noise. Applies to videos started after the change.</p>
+
+      {settings.enabled && (
+        <>
+          <div className="input-row">
+            <div className="input-group">
+              <label htmlFor="highPassHz">Speech band from (Hz):</label>
+              <input
+                id="highPassHz"
+                type="number"
+                min={50}
+                max={1000}
+                step={10}
+                value={settings.highPassHz}
+                onChange={(e) => updateSettings({ highPassHz: Number(e.target.value) || DEFAULT_AUDIO_PROCESSING_SETTINGS.highPassHz })}
+              />
+            </div>
+            <div className="input-group">
+              <label htmlFor="lowPassHz">to (Hz):</label>
+              <input
+                id="lowPassHz"
+                type="number"
+                min={2000}
+                max={8000}
+                step={100}
+                value={settings.lowPassHz}
+                onChange={(e) => updateSettings({ lowPassHz: Number(e.target.value) || DEFAULT_AUDIO_PROCESSING_SETTINGS.lowPassHz })}
+              />
+            </div>
+          </div>
+
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={settings.compressor}
+              onChange={(e) => updateSettings({ compressor: e.target.checked })}
+            />
+            Compress loud passages
+          </label>
+
+          {settings.compressor && (
+            <div className="input-row">
+              <div className="input-group">
+                <label htmlFor="compressorThreshold">Threshold (dB):</label>
+                <input
+                  id="compressorThreshold"
+                  type="number"
+                  min={-60}
+                  max={0}
+                  value={settings.compressorThreshold}
+                  onChange={(e) => updateSettings({ compressorThreshold: Number(e.target.value) })}
+                />
+              </div>
+              <div className="input-group">
+                <label htmlFor="compressorRatio">Ratio:</label>
+                <input
+                  id="compressorRatio"
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={settings.compressorRatio}
+                  onChange={(e) => updateSettings({ compressorRatio: Number(e.target.value) || 1 })}
+                />
+              </div>
+            </div>
+          )}
+
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={settings.normalize}
+              onChange={(e) => updateSettings({ normalize: e.target.checked })}
+            />
+            Normalize loudness
+          </label>
+
+          {settings.normalize && (
+            <div className="input-group">
+              <label htmlFor="targetLevel">Target level (dBFS):</label>
+              <input
+                id="targetLevel"
+                type="number"
+                min={-40}
+                max={-6}
+                value={settings.targetLevel}
+                onChange={(e) => updateSettings({ targetLevel: Number(e.target.value) })}
+              />
+            </div>
+          )}
+
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={settings.saveDebugAudio}
+              onChange={(e) => updateSettings({ saveDebugAudio: e.target.checked })}
+            />
+            Save audio before and after processing
+          </label>
+          <p className="field-hint">Downloads two WAV files when a video stops being translated.</p>
+        </>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default AudioProcessingSettings;
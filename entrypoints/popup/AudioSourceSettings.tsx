@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import {
+  loadSessionSettings,
+  saveSessionSettings,
+  type AudioSource
+} from '~/utils/session-settings';
+
+interface MicrophoneOption {
+  deviceId: string;
+  label: string;
+}
+
+function AudioSourceSettings() {
+  const [source, setSource] = useState<AudioSource>('page');
+  const [microphones, setMicrophones] = useState<MicrophoneOption[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [includeAudioElements, setIncludeAudioElements] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Load the active tab's source, the preferred microphone and the available inputs on mount
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const settings = await loadSessionSettings();
+        setDeviceId(settings.microphoneDeviceId ?? '');
+        setIncludeAudioElements(settings.includeAudioElements);
+
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        setMicrophones(devices
+          .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default')
+          .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Microphone ${index + 1}` })));
+
+        const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+        if (tab?.id) {
+          const response = await browser.tabs.sendMessage(tab.id, { type: 'GET_AUDIO_SOURCE' }, { frameId: 0 });
+          if (response?.success) {
+            setSource(response.source);
+          }
+        }
+      } catch (err) {
+        // Pages without the content script (e.g. browser pages) have no source to report
+        console.error('Audio source error:', err);
+      }
+    };
+    load();
+  }, []);
+
+  // Switch the active tab between its own media and the microphone
+  const applySource = async (nextSource: AudioSource, nextDeviceId: string) => {
+    setError('');
+    setSuccess('');
+
+    try {
+      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) {
+        setError('No active tab');
+        return;
+      }
+
+      const response = await browser.tabs.sendMessage(tab.id, {
+        type: 'SET_AUDIO_SOURCE',
+        source: nextSource,
+        deviceId: nextDeviceId || null
+      }, { frameId: 0 });
+
+      if (response?.success) {
+        setSource(nextSource);
+        setSuccess(nextSource === 'microphone' ? 'Transcribing the microphone' : 'Transcribing the page\'s media');
+      } else {
+        setError(response?.error ?? 'Failed to switch audio source');
+      }
+    } catch (err) {
+      setError('Failed to switch audio source');
+      console.error('Audio source error:', err);
+    }
+  };
+
+  const handleDeviceChange = async (nextDeviceId: string) => {
+    setDeviceId(nextDeviceId);
+    try {
+      const settings = await loadSessionSettings();
+      await saveSessionSettings({ ...settings, microphoneDeviceId: nextDeviceId || null });
+    } catch (err) {
+      console.error('Save error:', err);
+    }
+
+    if (source === 'microphone') {
+      await applySource('microphone', nextDeviceId);
+    }
+  };
+
+  // Saved immediately; pages check it whenever an audio element starts playing
+  const handleIncludeAudioElementsChange = async (checked: boolean) => {
+    setIncludeAudioElements(checked);
+    try {
+      const settings = await loadSessionSettings();
+      await saveSessionSettings({ ...settings, includeAudioElements: checked });
+      setError('');
+    } catch (err) {
+      setError('Failed to save audio source settings');
+      console.error('Save error:', err);
+    }
+  };
+
+  return (
+    <div className="audio-source-settings">
+      <h2>Audio Source</h2>
+
+      <div className="input-group">
+        <label htmlFor="audioSource">Transcribe:</label>
+        <select
+          id="audioSource"
+          value={source}
+          onChange={(e) => applySource(e.target.value as AudioSource, deviceId)}
+        >
+          <option value="page">Media on the page</option>
+          <option value="microphone">Microphone</option>
+        </select>
+      </div>
+
+      {source === 'page' && (
+        <>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={includeAudioElements}
+              onChange={(e) => handleIncludeAudioElementsChange(e.target.checked)}
+            />
+            Also translate audio players (podcasts, radio)
+          </label>
+          <p className="field-hint">
+            Off by default so chat and UI sounds don't start sessions. Clips under 30 seconds are always skipped.
+          </p>
+        </>
+      )}
+
+      {source === 'microphone' && (
+        <div className="input-group">
+          <label htmlFor="microphoneDevice">Microphone:</label>
+          <select
+            id="microphoneDevice"
+            value={deviceId}
+            onChange={(e) => handleDeviceChange(e.target.value)}
+          >
+            <option value="">System default</option>
+            {microphones.map(microphone => (
+              <option key={microphone.deviceId} value={microphone.deviceId}>{microphone.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {success && <div className="success-message">{success}</div>}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default AudioSourceSettings;
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import {
+  LANGUAGES,
+  createProfileId,
+  getActiveProfile,
+  loadProfiles,
+  saveProfiles,
+  setActiveProfileId,
+  type ProfileTone,
+  type TranslationProfile
+} from '~/utils/translation-profiles';
+import { TRANSCRIPTION_ENGINES, type TranscriptionEngine } from '~/utils/transcription-session';
+
+function ProfileSettings() {
+  const [profiles, setProfiles] = useState<TranslationProfile[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [draft, setDraft] = useState<TranslationProfile | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Load profiles and the active profile from storage on component mount
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [storedProfiles, active] = await Promise.all([loadProfiles(), getActiveProfile()]);
+        setProfiles(storedProfiles);
+        setActiveId(active.id);
+        setDraft(active);
+      } catch (err) {
+        setError('Failed to load profiles');
+        console.error('Storage error:', err);
+      }
+    };
+    load();
+  }, []);
+
+  const handleSelect = async (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+
+    setActiveId(id);
+    setDraft(profile);
+    setError('');
+    setSuccess('');
+    await setActiveProfileId(id);
+  };
+
+  const updateDraft = (changes: Partial<TranslationProfile>) => {
+    if (draft) {
+      setDraft({ ...draft, ...changes });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    if (!draft.name.trim()) {
+      setError('Profile name cannot be empty');
+      setSuccess('');
+      return;
+    }
+
+    const exists = profiles.some(p => p.id === draft.id);
+    const nextProfiles = exists
+      ? profiles.map(p => (p.id === draft.id ? draft : p))
+      : [...profiles, draft];
+
+    try {
+      await saveProfiles(nextProfiles);
+      await setActiveProfileId(draft.id);
+      setProfiles(nextProfiles);
+      setActiveId(draft.id);
+      setError('');
+      setSuccess('Profile saved! It applies to the next session.');
+    } catch (err) {
+      setError('Failed to save profile');
+      setSuccess('');
+      console.error('Save error:', err);
+    }
+  };
+
+  const handleNew = () => {
+    setDraft({
+      id: createProfileId(),
+      name: 'New profile',
+      sourceLanguage: 'auto',
+      targetLanguage: draft?.targetLanguage ?? 'zh-TW',
+      domainHints: '',
+      glossary: '',
+      tone: 'neutral',
+      engine: draft?.engine ?? 'live',
+    });
+    setError('');
+    setSuccess('');
+  };
+
+  const handleDelete = async () => {
+    if (!draft || profiles.length <= 1) return;
+
+    const nextProfiles = profiles.filter(p => p.id !== draft.id);
+    try {
+      await saveProfiles(nextProfiles);
+      await setActiveProfileId(nextProfiles[0].id);
+      setProfiles(nextProfiles);
+      setActiveId(nextProfiles[0].id);
+      setDraft(nextProfiles[0]);
+      setError('');
+      setSuccess('Profile deleted');
+    } catch (err) {
+      setError('Failed to delete profile');
+      setSuccess('');
+      console.error('Delete error:', err);
+    }
+  };
+
+  if (!draft) {
+    return null;
+  }
+
+  const isSaved = profiles.some(p => p.id === draft.id);
+
+  return (
+    <div className="profile-settings">
+      <h2>Translation Profile</h2>
+
+      <div className="input-group">
+        <label htmlFor="activeProfile">Active profile:</label>
+        <select
+          id="activeProfile"
+          value={isSaved ? activeId : ''}
+          onChange={(e) => handleSelect(e.target.value)}
+        >
+          {!isSaved && <option value="">(unsaved) {draft.name}</option>}
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="profileName">Name:</label>
+        <input
+          id="profileName"
+          type="text"
+          value={draft.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+        />
+      </div>
+
+      <div className="input-row">
+        <div className="input-group">
+          <label htmlFor="sourceLanguage">From:</label>
+          <select
+            id="sourceLanguage"
+            value={draft.sourceLanguage}
+            onChange={(e) => updateDraft({ sourceLanguage: e.target.value })}
+          >
+            {LANGUAGES.map(lang => (
+              <option key={lang.code} value={lang.code}>{lang.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="targetLanguage">To:</label>
+          <select
+            id="targetLanguage"
+            value={draft.targetLanguage}
+            onChange={(e) => updateDraft({ targetLanguage: e.target.value })}
+          >
+            {LANGUAGES.filter(lang => lang.code !== 'auto').map(lang => (
+              <option key={lang.code} value={lang.code}>{lang.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="tone">Tone:</label>
+        <select
+          id="tone"
+          value={draft.tone}
+          onChange={(e) => updateDraft({ tone: e.target.value as ProfileTone })}
+        >
+          <option value="neutral">Neutral</option>
+          <option value="casual">Casual</option>
+          <option value="formal">Formal</option>
+        </select>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="engine">Transcription engine:</label>
+        <select
+          id="engine"
+          value={draft.engine}
+          onChange={(e) => updateDraft({ engine: e.target.value as TranscriptionEngine })}
+        >
+          {TRANSCRIPTION_ENGINES.map(engine => (
+            <option key={engine.value} value={engine.value}>{engine.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="domainHints">Domain hints:</label>
+        <input
+          id="domainHints"
+          type="text"
+          value={draft.domainHints}
+          onChange={(e) => updateDraft({ domainHints: e.target.value })}
+          placeholder="e.g. Japanese TV dramas"
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="glossary">Glossary (one "term = translation" per line):</label>
+        <textarea
+          id="glossary"
+          rows={3}
+          value={draft.glossary}
+          onChange={(e) => updateDraft({ glossary: e.target.value })}
+        />
+      </div>
+
+      <div className="button-group">
+        <button onClick={handleSave}>Save</button>
+        <button onClick={handleNew} className="clear-button">New</button>
+        <button
+          onClick={handleDelete}
+          disabled={!isSaved || profiles.length <= 1}
+          className="clear-button"
+        >
+          Delete
+        </button>
+      </div>
+
+      {success && <div className="success-message">{success}</div>}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default ProfileSettings;
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { CAPTURE_METHOD_LABELS, type CaptureMethod } from '~/utils/audio-capture';
+import { STATUS_TONE_COLORS, getStatusBadge } from '~/utils/session-status';
+import type { SessionStatus } from '~/utils/transcription-session';
+import {
+  DEFAULT_SESSION_SETTINGS,
+  loadSessionSettings,
+  saveSessionSettings,
+  type SessionSettings as SessionSettingsValues
+} from '~/utils/session-settings';
+
+interface TabSession {
+  frameId: number;
+  videoId: string;
+  captureMethod: CaptureMethod;
+  sentSeconds: number;
+  skippedSeconds: number;
+  status: SessionStatus;
+}
+
+// A video whose session couldn't start
+interface TabFailure {
+  frameId: number;
+  videoId: string;
+  status: SessionStatus;
+}
+
+// Refresh the audio statistics while the popup is open
+const STATUS_REFRESH_MS = 1000;
+
+function formatSeconds(seconds: number): string {
+  const total = Math.round(seconds);
+  return total < 60 ? `${total}s` : `${Math.floor(total / 60)}m ${total % 60}s`;
+}
+
+function SessionSettings() {
+  const [settings, setSettings] = useState<SessionSettingsValues>(DEFAULT_SESSION_SETTINGS);
+  const [tabSessions, setTabSessions] = useState<TabSession[]>([]);
+  const [tabFailures, setTabFailures] = useState<TabFailure[]>([]);
+  const [error, setError] = useState('');
+
+  // Load session settings from storage on component mount
+  useEffect(() => {
+    loadSessionSettings()
+      .then(setSettings)
+      .catch((err) => {
+        setError('Failed to load session settings');
+        console.error('Storage error:', err);
+      });
+  }, []);
+
+  // Ask background which sessions run in the active tab, how their audio is captured and how much was sent
+  useEffect(() => {
+    const loadTabSessions = async () => {
+      try {
+        const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.id) {
+          return;
+        }
+        const response = await browser.runtime.sendMessage({ type: 'GET_TAB_SESSIONS', tabId: tab.id });
+        if (response?.success) {
+          setTabSessions(response.sessions);
+          setTabFailures(response.failures ?? []);
+        }
+      } catch (err) {
+        console.error('Session status error:', err);
+      }
+    };
+    loadTabSessions();
+    const timer = window.setInterval(loadTabSessions, STATUS_REFRESH_MS);
+
+    // Background broadcasts state changes; refresh right away instead of waiting for the timer
+    const handleMessage = (message: { type?: string }) => {
+      if (message.type === 'SESSION_STATUS_CHANGED') {
+        loadTabSessions();
+      }
+    };
+    browser.runtime.onMessage.addListener(handleMessage);
+
+    return () => {
+      clearInterval(timer);
+      browser.runtime.onMessage.removeListener(handleMessage);
+    };
+  }, []);
+
+  const renderStatus = (status: SessionStatus) => {
+    const badge = getStatusBadge(status);
+    if (!badge) {
+      return null;
+    }
+    return (
+      <>
+        <span className="session-state" style={{ background: STATUS_TONE_COLORS[badge.tone] }}>
+          {badge.label}
+        </span>
+        {status.reason && <div className="session-state-reason">{status.reason}</div>}
+      </>
+    );
+  };
+
+  // Settings are saved immediately; background reads them when a session starts
+  const updateSettings = async (changes: Partial<SessionSettingsValues>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    try {
+      await saveSessionSettings(next);
+      setError('');
+    } catch (err) {
+      setError('Failed to save session settings');
+      console.error('Save error:', err);
+    }
+  };
+
+  return (
+    <div className="session-settings">
+      <h2>Sessions</h2>
+
+      {tabSessions.length === 0 && tabFailures.length === 0 ? (
+        <p className="field-hint">No video is being translated in this tab.</p>
+      ) : (
+        <ul className="session-status-list">
+          {tabFailures.map(tabFailure => (
+            <li key={`${tabFailure.frameId}:${tabFailure.videoId}`}>
+              {tabFailure.frameId === 0 ? 'Video' : 'Embedded video'}
+              {' · '}
+              {renderStatus(tabFailure.status)}
+            </li>
+          ))}
+          {tabSessions.map(tabSession => (
+            <li key={`${tabSession.frameId}:${tabSession.videoId}`}>
+              {tabSession.frameId === 0 ? 'Video' : 'Embedded video'}
+              {' · '}
+              {renderStatus(tabSession.status)}
+              {' '}
+              <span className={`capture-method capture-method-${tabSession.captureMethod}`}>
+                {CAPTURE_METHOD_LABELS[tabSession.captureMethod]}
+              </span>
+              <div className="session-audio-stats">
+                {formatSeconds(tabSession.sentSeconds)} sent · {formatSeconds(tabSession.skippedSeconds)} skipped as silence
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="input-group">
+        <label htmlFor="maxConcurrentSessions">Max videos translated at once:</label>
+        <input
+          id="maxConcurrentSessions"
+          type="number"
+          min={1}
+          max={8}
+          value={settings.maxConcurrentSessions}
+          onChange={(e) => updateSettings({ maxConcurrentSessions: Number(e.target.value) || 1 })}
+        />
+        <p className="field-hint">Starting another video stops the one translated longest.</p>
+      </div>
+
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.gateSilence}
+          onChange={(e) => updateSettings({ gateSilence: e.target.checked })}
+        />
+        Skip silence instead of sending it to Gemini
+      </label>
+      <p className="field-hint">Applies to videos started after the change.</p>
+
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default SessionSettings;
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import {
+  createSiteRuleId,
+  loadSiteRules,
+  saveSiteRules,
+  type SiteRule
+} from '~/utils/site-rules';
+import { loadProfiles, type TranslationProfile } from '~/utils/translation-profiles';
+
+function SiteRulesSettings() {
+  const [rules, setRules] = useState<SiteRule[]>([]);
+  const [profiles, setProfiles] = useState<TranslationProfile[]>([]);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Load site rules and profiles from storage on component mount
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [storedRules, storedProfiles] = await Promise.all([loadSiteRules(), loadProfiles()]);
+        setRules(storedRules);
+        setProfiles(storedProfiles);
+      } catch (err) {
+        setError('Failed to load site rules');
+        console.error('Storage error:', err);
+      }
+    };
+    load();
+  }, []);
+
+  const updateRule = (id: string, changes: Partial<SiteRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+    setSuccess('');
+  };
+
+  const handleAddCurrentSite = async () => {
+    let pattern = '';
+    try {
+      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+      if (tab?.url) {
+        const url = new URL(tab.url);
+        pattern = url.hostname.replace(/^www\./, '');
+      }
+    } catch (err) {
+      console.error('Failed to read active tab URL:', err);
+    }
+
+    setRules([...rules, { id: createSiteRuleId(), pattern, enabled: true, profileId: null }]);
+    setSuccess('');
+  };
+
+  const handleDelete = (id: string) => {
+    setRules(rules.filter(rule => rule.id !== id));
+    setSuccess('');
+  };
+
+  const handleSave = async () => {
+    const trimmedRules = rules.map(rule => ({ ...rule, pattern: rule.pattern.trim() }));
+
+    if (trimmedRules.some(rule => !rule.pattern)) {
+      setError('URL pattern cannot be empty');
+      setSuccess('');
+      return;
+    }
+
+    try {
+      await saveSiteRules(trimmedRules);
+      setRules(trimmedRules);
+      setError('');
+      setSuccess('Site rules saved! They apply on the next page load or navigation.');
+    } catch (err) {
+      setError('Failed to save site rules');
+      setSuccess('');
+      console.error('Save error:', err);
+    }
+  };
+
+  return (
+    <div className="site-rules-settings">
+      <h2>Site Rules</h2>
+      <p className="toggle-description">
+        The first matching rule overrides the Translation toggle, e.g. "youtube.com/watch" or "netflix.com".
+      </p>
+
+      {rules.map(rule => (
+        <div key={rule.id} className="site-rule">
+          <input
+            type="text"
+            value={rule.pattern}
+            onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+            placeholder="example.com/path"
+          />
+          <div className="input-row">
+            <select
+              value={rule.enabled ? 'on' : 'off'}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.value === 'on' })}
+            >
+              <option value="on">Auto-enable</option>
+              <option value="off">Off</option>
+            </select>
+            <select
+              value={rule.profileId ?? ''}
+              disabled={!rule.enabled}
+              onChange={(e) => updateRule(rule.id, { profileId: e.target.value || null })}
+            >
+              <option value="">Active profile</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+            <button className="remove-button" onClick={() => handleDelete(rule.id)} title="Remove rule">
+              ✕
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="button-group">
+        <button onClick={handleSave}>Save</button>
+        <button onClick={handleAddCurrentSite} className="clear-button">Add this site</button>
+      </div>
+
+      {success && <div className="success-message">{success}</div>}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default SiteRulesSettings;
@@ -0,0 +1,292 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  DEFAULT_SUBTITLE_SETTINGS,
+  FONT_FAMILIES,
+  applyStyleProperties,
+  getSubtitleBoxStyle,
+  getSubtitleLineStyle,
+  loadSubtitleSettings,
+  saveSubtitleSettings,
+  type FontSizeUnit,
+  type SubtitleOutputMode,
+  type SubtitleSettings,
+  type TextEdgeStyle
+} from '~/utils/subtitle-settings';
+import { saveOverlayLayout } from '~/utils/overlay-layout';
+import { splitIntoCues } from '~/utils/subtitle-segmenter';
+
+// Height of the preview "video", used for percent-based font sizes
+const PREVIEW_HEIGHT = 160;
+
+const PREVIEW_TRANSLATION = '大家好，今天也謝謝大家來看我們的直播。我們今天要介紹一個非常特別的新產品！';
+
+function SubtitleDisplaySettings() {
+  const [settings, setSettings] = useState<SubtitleSettings>(DEFAULT_SUBTITLE_SETTINGS);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const previewBoxRef = useRef<HTMLDivElement>(null);
+  const previewLineRef = useRef<HTMLDivElement>(null);
+
+  // Load subtitle settings from storage on component mount
+  useEffect(() => {
+    loadSubtitleSettings()
+      .then(setSettings)
+      .catch((err) => {
+        setError('Failed to load subtitle settings');
+        console.error('Storage error:', err);
+      });
+  }, []);
+
+  // Live preview with the same styles the overlay applies
+  useEffect(() => {
+    if (previewBoxRef.current && previewLineRef.current) {
+      applyStyleProperties(previewBoxRef.current, getSubtitleBoxStyle(settings, PREVIEW_HEIGHT));
+      applyStyleProperties(previewLineRef.current, getSubtitleLineStyle(settings));
+    }
+  }, [settings]);
+
+  // Settings are saved immediately; content scripts re-apply them on storage change
+  const updateSettings = async (changes: Partial<SubtitleSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    try {
+      await saveSubtitleSettings(next);
+      setError('');
+    } catch (err) {
+      setError('Failed to save subtitle settings');
+      console.error('Save error:', err);
+    }
+  };
+
+  // Toggle drag/resize mode for the overlay in the active tab
+  const handleEditPosition = async () => {
+    setError('');
+    setSuccess('');
+
+    try {
+      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) {
+        setError('No active tab');
+        return;
+      }
+
+      const response = await browser.tabs.sendMessage(tab.id, { type: 'TOGGLE_OVERLAY_EDIT' });
+      if (response?.success) {
+        setSuccess(response.editing
+          ? 'Drag the subtitles on the page; press Esc when done'
+          : 'Subtitle position saved');
+      } else {
+        setError(response?.error ?? 'No video with subtitles on this page');
+      }
+    } catch (err) {
+      setError('Failed to toggle subtitle position editing');
+      console.error('Overlay edit error:', err);
+    }
+  };
+
+  // Forget the position saved for the active tab's site
+  const handleResetPosition = async () => {
+    setError('');
+    setSuccess('');
+
+    try {
+      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.url) {
+        setError('No active tab');
+        return;
+      }
+
+      const hostname = new URL(tab.url).hostname;
+      await saveOverlayLayout(hostname, null);
+      setSuccess(`Subtitle position reset for ${hostname}`);
+    } catch (err) {
+      setError('Failed to reset subtitle position');
+      console.error('Overlay layout error:', err);
+    }
+  };
+
+  return (
+    <div className="subtitle-display-settings">
+      <h2>Subtitle Display</h2>
+
+      <div className="subtitle-preview" style={{ height: PREVIEW_HEIGHT }}>
+        <div ref={previewBoxRef} className="subtitle-preview-box">
+          {settings.showOriginal && <div className="subtitle-preview-original">안녕하세요, 여러분</div>}
+          {settings.showTranslation && (
+            <div ref={previewLineRef} className="subtitle-preview-line">
+              {splitIntoCues(PREVIEW_TRANSLATION, settings.maxCharsPerLine).slice(0, settings.maxLines).join('\n')}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="outputMode">Show subtitles as:</label>
+        <select
+          id="outputMode"
+          value={settings.outputMode}
+          onChange={(e) => updateSettings({ outputMode: e.target.value as SubtitleOutputMode })}
+        >
+          <option value="overlay">Overlay</option>
+          <option value="native">Native track (player captions)</option>
+          <option value="both">Both</option>
+        </select>
+      </div>
+
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.showOriginal}
+          onChange={(e) => updateSettings({ showOriginal: e.target.checked })}
+        />
+        Show original transcript
+      </label>
+
+      <label className="checkbox-label">
+        <input
+          type="checkbox"
+          checked={settings.showTranslation}
+          onChange={(e) => updateSettings({ showTranslation: e.target.checked })}
+        />
+        Show translation
+      </label>
+
+      <div className="input-group">
+        <label htmlFor="fontFamily">Font:</label>
+        <select
+          id="fontFamily"
+          value={settings.fontFamily}
+          onChange={(e) => updateSettings({ fontFamily: e.target.value })}
+        >
+          {FONT_FAMILIES.map(font => (
+            <option key={font.value} value={font.value}>{font.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="input-row">
+        <div className="input-group">
+          <label htmlFor="fontSize">Size:</label>
+          <input
+            id="fontSize"
+            type="number"
+            min={1}
+            step={settings.fontSizeUnit === '%' ? 0.5 : 1}
+            value={settings.fontSize}
+            onChange={(e) => updateSettings({ fontSize: Number(e.target.value) || 1 })}
+          />
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="fontSizeUnit">Unit:</label>
+          <select
+            id="fontSizeUnit"
+            value={settings.fontSizeUnit}
+            onChange={(e) => updateSettings({ fontSizeUnit: e.target.value as FontSizeUnit })}
+          >
+            <option value="px">px</option>
+            <option value="%">% of video height</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="input-row">
+        <div className="input-group">
+          <label htmlFor="textColor">Text:</label>
+          <input
+            id="textColor"
+            type="color"
+            value={settings.textColor}
+            onChange={(e) => updateSettings({ textColor: e.target.value })}
+          />
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="backgroundColor">Background:</label>
+          <input
+            id="backgroundColor"
+            type="color"
+            value={settings.backgroundColor}
+            onChange={(e) => updateSettings({ backgroundColor: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="backgroundOpacity">
+          Background opacity: {Math.round(settings.backgroundOpacity * 100)}%
+        </label>
+        <input
+          id="backgroundOpacity"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.backgroundOpacity}
+          onChange={(e) => updateSettings({ backgroundOpacity: Number(e.target.value) })}
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="textEdge">Edge:</label>
+        <select
+          id="textEdge"
+          value={settings.textEdge}
+          onChange={(e) => updateSettings({ textEdge: e.target.value as TextEdgeStyle })}
+        >
+          <option value="none">None</option>
+          <option value="outline">Outline</option>
+          <option value="shadow">Drop shadow</option>
+        </select>
+      </div>
+
+      <div className="input-row">
+        <div className="input-group">
+          <label htmlFor="maxLines">Lines shown:</label>
+          <input
+            id="maxLines"
+            type="number"
+            min={1}
+            max={5}
+            value={settings.maxLines}
+            onChange={(e) => updateSettings({ maxLines: Number(e.target.value) || 1 })}
+          />
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="maxCharsPerLine">Characters per line:</label>
+          <input
+            id="maxCharsPerLine"
+            type="number"
+            min={10}
+            max={100}
+            value={settings.maxCharsPerLine}
+            onChange={(e) => updateSettings({ maxCharsPerLine: Number(e.target.value) || 10 })}
+          />
+        </div>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="bottomOffset">Position from bottom: {settings.bottomOffset}%</label>
+        <input
+          id="bottomOffset"
+          type="range"
+          min={0}
+          max={90}
+          value={settings.bottomOffset}
+          onChange={(e) => updateSettings({ bottomOffset: Number(e.target.value) })}
+        />
+      </div>
+
+      <div className="button-group">
+        <button onClick={handleEditPosition}>Move / resize on page</button>
+        <button onClick={handleResetPosition} className="clear-button">Reset position</button>
+      </div>
+
+      {success && <div className="success-message">{success}</div>}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default SubtitleDisplaySettings;
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import type { SubtitleFormat } from '~/utils/subtitle-export';
+
+function SubtitleExport() {
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  // Ask the active tab's content script to download its captured subtitles
+  const handleExport = async (format: SubtitleFormat) => {
+    setError('');
+    setSuccess('');
+
+    try {
+      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+      if (!tab?.id) {
+        setError('No active tab');
+        return;
+      }
+
+      const response = await browser.tabs.sendMessage(tab.id, { type: 'EXPORT_SUBTITLES', format });
+      if (response?.success) {
+        setSuccess(`Exported ${response.count} subtitles as .${format}`);
+      } else {
+        setError(response?.error ?? 'No subtitles captured on this page yet');
+      }
+    } catch (err) {
+      setError('Failed to export subtitles');
+      console.error('Export error:', err);
+    }
+  };
+
+  const handleOpenHistory = () => {
+    browser.tabs.create({ url: browser.runtime.getURL('/history.html') });
+  };
+
+  return (
+    <div className="subtitle-export">
+      <h2>Subtitles</h2>
+
+      <div className="button-group">
+        <button onClick={() => handleExport('srt')}>Download .srt</button>
+        <button onClick={() => handleExport('vtt')}>Download .vtt</button>
+        <button onClick={handleOpenHistory} className="clear-button">History</button>
+      </div>
+
+      {success && <div className="success-message">{success}</div>}
+      {error && <div className="error-message">{error}</div>}
+    </div>
+  );
+}
+
+export default SubtitleExport;
@@ -0,0 +1,63 @@
+// AudioWorklet processor emitting contiguous, fixed-size mono frames resampled to the target rate.
+// Loaded by utils/audio-chunker.ts; plain JavaScript because worklets can't import bundled modules.
+
+class AudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate; // Input samples per output sample
+    this.frameSize = frameSize;
+    this.frame = new Float32Array(frameSize);
+    this.frameLength = 0;
+    this.position = 0; // Input index of the next output sample, relative to the current block
+    this.lastSample = 0; // Last input sample of the previous block, at index -1
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) {
+      return true;
+    }
+
+    const block = mixDown(channels);
+    const lastIndex = block.length - 1;
+
+    // Linear interpolation; the context low-pass filters beforehand when downsampling
+    while (this.position < lastIndex) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const current = index < 0 ? this.lastSample : block[index];
+      this.push(current + (block[index + 1] - current) * fraction);
+      this.position += this.ratio;
+    }
+
+    this.position -= block.length;
+    this.lastSample = block[lastIndex];
+    return true;
+  }
+
+  push(sample) {
+    this.frame[this.frameLength++] = sample;
+    if (this.frameLength === this.frameSize) {
+      this.port.postMessage(this.frame, [this.frame.buffer]);
+      this.frame = new Float32Array(this.frameSize);
+      this.frameLength = 0;
+    }
+  }
+}
+
+function mixDown(channels) {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+
+  const mixed = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      mixed[i] += channel[i] / channels.length;
+    }
+  }
+  return mixed;
+}
+
+registerProcessor('audio-capture-processor', AudioCaptureProcessor);
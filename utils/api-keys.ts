@@ -0,0 +1,182 @@
+// API key utility for storing several named Gemini keys, checking them and rotating between them
+
+import { GoogleGenAI } from '@google/genai';
+import {
+  INVALID_API_KEY_REASON,
+  QUOTA_EXCEEDED_REASON,
+  describeSessionError
+} from '~/utils/session-status';
+
+// 'unchecked': never checked, or the last check couldn't reach the API
+export type ApiKeyStatus = 'unchecked' | 'valid' | 'invalid' | 'quota-exceeded';
+
+export interface ApiKeyEntry {
+  id: string;
+  name: string;
+  key: string;
+  status: ApiKeyStatus;
+  statusReason: string | null; // Why the key was last marked invalid or out of quota
+  statusChangedAt: number | null; // Milliseconds since the epoch
+}
+
+export interface ApiKeyCheck {
+  status: ApiKeyStatus;
+  reason: string | null;
+}
+
+// A key out of quota is skipped this long before sessions try it again
+export const QUOTA_COOLDOWN_MS = 15 * 60 * 1000;
+
+const VALIDATION_TIMEOUT_MS = 10000;
+
+// Changes to the key list are applied one after another, so none overwrites another's result
+let apiKeysUpdate: Promise<unknown> = Promise.resolve();
+
+export function createApiKeyId(): string {
+  return `key-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createApiKeyEntry(name: string, key: string, check?: ApiKeyCheck): ApiKeyEntry {
+  return {
+    id: createApiKeyId(),
+    name,
+    key,
+    status: check?.status ?? 'unchecked',
+    statusReason: check?.reason ?? null,
+    statusChangedAt: check ? Date.now() : null,
+  };
+}
+
+// Show only the start of a key, e.g. in lists
+export function maskApiKey(key: string): string {
+  return key.substring(0, 4) + '*'.repeat(Math.max(0, Math.min(key.length, 12) - 4));
+}
+
+export async function loadApiKeys(): Promise<ApiKeyEntry[]> {
+  const { apiKeys } = await browser.storage.local.get('apiKeys');
+  return Array.isArray(apiKeys) ? apiKeys : [];
+}
+
+async function saveApiKeys(apiKeys: ApiKeyEntry[]): Promise<void> {
+  await browser.storage.local.set({ apiKeys });
+}
+
+// Apply a change to the freshly read key list and save it, after any change already in progress.
+// Background makes all changes through here; the popup asks it to. Returning the list as given
+// skips the save.
+export function updateApiKeys(update: (apiKeys: ApiKeyEntry[]) => ApiKeyEntry[]): Promise<ApiKeyEntry[]> {
+  const result = apiKeysUpdate.then(async () => {
+    const current = await loadApiKeys();
+    const apiKeys = update(current);
+    if (apiKeys !== current) {
+      await saveApiKeys(apiKeys);
+    }
+    return apiKeys;
+  });
+  apiKeysUpdate = result.catch(() => {});
+  return result;
+}
+
+// Move the single key saved before named keys existed into the list; background does this at startup
+export async function migrateLegacyApiKey(): Promise<void> {
+  const { apiKey } = await browser.storage.local.get('apiKey');
+  if (!apiKey) {
+    return;
+  }
+
+  await updateApiKeys(apiKeys => apiKeys.some(entry => entry.key === apiKey)
+    ? apiKeys
+    : [createApiKeyEntry('Default', apiKey), ...apiKeys]);
+  await browser.storage.local.remove('apiKey');
+}
+
+// Call back whenever the keys or the active key change in storage, e.g. when a session ran out of
+// quota and moved on to the next key; returns an unsubscribe function
+export function watchApiKeys(callback: () => void): () => void {
+  const listener = (changes: Record<string, { newValue?: unknown }>, areaName: string) => {
+    if (areaName === 'local' && (changes.apiKeys || changes.activeApiKeyId)) {
+      callback();
+    }
+  };
+  browser.storage.onChanged.addListener(listener);
+  return () => browser.storage.onChanged.removeListener(listener);
+}
+
+export async function getActiveApiKeyId(): Promise<string | null> {
+  const { activeApiKeyId } = await browser.storage.local.get('activeApiKeyId');
+  return activeApiKeyId ?? null;
+}
+
+export async function setActiveApiKeyId(activeApiKeyId: string): Promise<void> {
+  await browser.storage.local.set({ activeApiKeyId });
+}
+
+// Record a key's status; unchanged statuses keep their time, so a quota cooldown isn't restarted
+export async function updateApiKeyStatus(id: string, check: ApiKeyCheck): Promise<void> {
+  await updateApiKeys((apiKeys) => {
+    const entry = apiKeys.find(candidate => candidate.id === id);
+    if (!entry || (entry.status === check.status && entry.statusReason === check.reason)) {
+      return apiKeys;
+    }
+    return apiKeys.map(candidate => candidate.id === id
+      ? { ...candidate, status: check.status, statusReason: check.reason, statusChangedAt: Date.now() }
+      : candidate);
+  });
+}
+
+// Whether sessions may use the key: not rejected, and not recently out of quota
+export function isApiKeyUsable(entry: ApiKeyEntry, now = Date.now()): boolean {
+  if (entry.status === 'invalid') {
+    return false;
+  }
+  if (entry.status === 'quota-exceeded') {
+    return now - (entry.statusChangedAt ?? 0) >= QUOTA_COOLDOWN_MS;
+  }
+  return true;
+}
+
+// The key a new session should use: the active one if usable, else the next usable one after it
+export async function getSessionApiKey(): Promise<ApiKeyEntry | null> {
+  const [apiKeys, activeId] = await Promise.all([loadApiKeys(), getActiveApiKeyId()]);
+  const active = apiKeys.find(entry => entry.id === activeId) ?? apiKeys[0];
+  if (!active) {
+    return null;
+  }
+  return isApiKeyUsable(active) ? active : getNextApiKey(apiKeys, active.id);
+}
+
+// The next usable key after `currentId` (which may have been removed) in list order, wrapping around;
+// null when none is left
+export function getNextApiKey(apiKeys: ApiKeyEntry[], currentId: string): ApiKeyEntry | null {
+  const start = apiKeys.findIndex(entry => entry.id === currentId);
+  for (let offset = 1; offset <= apiKeys.length; offset++) {
+    const entry = apiKeys[(start + offset) % apiKeys.length];
+    if (entry.id !== currentId && isApiKeyUsable(entry)) {
+      return entry;
+    }
+  }
+  return null;
+}
+
+// Check a key with a model list request, which is cheap and needs no generation quota
+export async function checkApiKey(key: string): Promise<ApiKeyCheck> {
+  try {
+    const ai = new GoogleGenAI({ apiKey: key });
+    await ai.models.list({ config: { pageSize: 1, httpOptions: { timeout: VALIDATION_TIMEOUT_MS } } });
+    return { status: 'valid', reason: null };
+  } catch (error) {
+    const { reason, isRetryable } = describeSessionError(error);
+    if (reason === QUOTA_EXCEEDED_REASON) {
+      return { status: 'quota-exceeded', reason };
+    }
+    // A malformed key is rejected as a bad request rather than an invalid key
+    if (/\b400\b|invalid_argument/i.test(String(error))) {
+      return { status: 'invalid', reason: INVALID_API_KEY_REASON };
+    }
+    if (!isRetryable) {
+      return { status: 'invalid', reason };
+    }
+    // Network trouble and the like say nothing about the key itself
+    return { status: 'unchecked', reason };
+  }
+}
@@ -1,4 +1,4 @@
-// Audio capture utility for video elements
+// Audio capture utility for video and audio elements
 
 // Audio processing configuration
 export const AUDIO_CONFIG = {
@@ -8,31 +8,43 @@ export const AUDIO_CONFIG = {
   SAMPLE_RATE: 16000 // Standard for speech recognition
 };
 
-// Extend HTMLVideoElement type to include captureStream
-export interface ExtendedHTMLVideoElement extends HTMLVideoElement {
+// Extend HTMLMediaElement type to include captureStream (mozCaptureStream in Firefox)
+export interface ExtendedHTMLMediaElement extends HTMLMediaElement {
   captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
 }
 
+// 'element' captures the media element's own audio, 'tab' the whole tab's audio through the
+// offscreen document, 'microphone' an input device the user picked
+export type CaptureMethod = 'element' | 'tab' | 'microphone';
+
+export const CAPTURE_METHOD_LABELS: Record<CaptureMethod, string> = {
+  element: 'Media element audio',
+  tab: 'Tab audio (fallback)',
+  microphone: 'Microphone',
+};
+
 export interface AudioCaptureResult {
   audioStream: MediaStream;
   audioTracks: MediaStreamTrack[];
 }
 
-export async function captureAudioFromVideo(video: ExtendedHTMLVideoElement): Promise<AudioCaptureResult | null> {
+export async function captureAudioFromMedia(media: ExtendedHTMLMediaElement): Promise<AudioCaptureResult | null> {
   try {
-    console.log('Attempting to capture audio stream from video element');
+    console.log('Attempting to capture audio stream from media element');
 
-    // Check if the video element supports captureStream
-    if (typeof video.captureStream !== 'function') {
-      console.error('captureStream not supported on this video element');
+    // Check if the media element supports captureStream
+    const captureStream = media.captureStream ?? media.mozCaptureStream;
+    if (typeof captureStream !== 'function') {
+      console.error('captureStream not supported on this media element');
       return null;
     }
 
-    // Capture the media stream from the video element
-    const stream = video.captureStream();
+    // Capture the media stream from the media element
+    const stream = captureStream.call(media);
 
     if (!stream) {
-      console.error('Failed to capture stream from video');
+      console.error('Failed to capture stream from media element');
       return null;
     }
 
@@ -40,7 +52,7 @@ export async function captureAudioFromVideo(video: ExtendedHTMLVideoElement): Pr
     const audioTracks = stream.getAudioTracks();
 
     if (audioTracks.length === 0) {
-      console.warn('No audio tracks found in video stream');
+      console.warn('No audio tracks found in media stream');
       return null;
     }
 
@@ -64,7 +76,7 @@ export async function captureAudioFromVideo(video: ExtendedHTMLVideoElement): Pr
     return { audioStream, audioTracks };
 
   } catch (error) {
-    console.error('Error capturing audio from video:', error);
+    console.error('Error capturing audio from media element:', error);
     return null;
   }
 }
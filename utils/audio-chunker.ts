@@ -0,0 +1,131 @@
+// Audio chunker utility for turning a MediaStream into 16 kHz PCM chunks
+
+import {
+  createProcessingChain,
+  updateNormalizer,
+  type AudioProcessingSettings
+} from '~/utils/audio-processing';
+import type { AudioChunk } from '~/utils/transcription-session';
+
+const TARGET_SAMPLE_RATE = 16000;
+const CHUNK_DURATION_MS = 250;
+const PROCESSOR_PATH = '/audio-capture-processor.js';
+const PROCESSOR_NAME = 'audio-capture-processor';
+
+export interface AudioChunkerOptions {
+  processing?: AudioProcessingSettings; // Speech cleanup applied before chunking
+  onRawChunk?: (chunk: AudioChunk) => void; // The same audio before processing, for comparison
+}
+
+export interface AudioChunker {
+  audioContext: AudioContext;
+  workletNodes: AudioWorkletNode[];
+}
+
+// Stream the audio through an AudioWorklet, which hands out contiguous 16 kHz PCM frames
+// regardless of timer throttling in background tabs
+export async function startAudioChunker(
+  stream: MediaStream,
+  onChunk: (chunk: AudioChunk) => void,
+  options: AudioChunkerOptions = {}
+): Promise<AudioChunker> {
+  const { audioContext, source } = createCaptureContext(stream);
+
+  try {
+    await audioContext.audioWorklet.addModule(browser.runtime.getURL(PROCESSOR_PATH));
+
+    const processing = options.processing;
+    const chain = processing ? createProcessingChain(audioContext, processing) : null;
+    const workletNodes: AudioWorkletNode[] = [];
+
+    if (chain && processing) {
+      source.connect(chain.input);
+      workletNodes.push(createChunkingNode(audioContext, chain.output, (frame) => {
+        updateNormalizer(chain, processing);
+        onChunk(toAudioChunk(frame));
+      }));
+    } else {
+      workletNodes.push(createChunkingNode(audioContext, source, frame => onChunk(toAudioChunk(frame))));
+    }
+
+    const onRawChunk = options.onRawChunk;
+    if (onRawChunk) {
+      workletNodes.push(createChunkingNode(audioContext, source, frame => onRawChunk(toAudioChunk(frame))));
+    }
+
+    return { audioContext, workletNodes };
+  } catch (error) {
+    void audioContext.close();
+    throw error;
+  }
+}
+
+export function stopAudioChunker(chunker: AudioChunker | null): void {
+  if (chunker) {
+    for (const workletNode of chunker.workletNodes) {
+      workletNode.port.onmessage = null;
+      workletNode.disconnect();
+    }
+    void chunker.audioContext.close();
+  }
+}
+
+// Feed `input` into a worklet that calls back with each 16 kHz frame
+function createChunkingNode(
+  audioContext: AudioContext,
+  input: AudioNode,
+  onFrame: (frame: Float32Array) => void
+): AudioWorkletNode {
+  const workletNode = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+    numberOfOutputs: 0,
+    processorOptions: {
+      targetSampleRate: TARGET_SAMPLE_RATE,
+      frameSize: TARGET_SAMPLE_RATE * CHUNK_DURATION_MS / 1000
+    }
+  });
+  workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => onFrame(event.data);
+
+  // Above 16 kHz, remove what the target rate can't represent before the worklet resamples
+  if (audioContext.sampleRate > TARGET_SAMPLE_RATE) {
+    const lowPass = audioContext.createBiquadFilter();
+    lowPass.type = 'lowpass';
+    lowPass.frequency.value = TARGET_SAMPLE_RATE * 0.45;
+    input.connect(lowPass).connect(workletNode);
+  } else {
+    input.connect(workletNode);
+  }
+
+  return workletNode;
+}
+
+function toAudioChunk(frame: Float32Array): AudioChunk {
+  return {
+    pcmData: convertFloat32ToInt16PCM(frame),
+    sampleRate: TARGET_SAMPLE_RATE
+  };
+}
+
+// Prefer a 16 kHz context; browsers that refuse it, or refuse to connect a stream of another
+// rate to it (Firefox), get a context at the default rate and the worklet resamples instead
+function createCaptureContext(stream: MediaStream): { audioContext: AudioContext; source: MediaStreamAudioSourceNode } {
+  let audioContext: AudioContext | null = null;
+  try {
+    audioContext = new AudioContext({ sampleRate: TARGET_SAMPLE_RATE });
+    return { audioContext, source: audioContext.createMediaStreamSource(stream) };
+  } catch (error) {
+    console.warn('16 kHz AudioContext not available, resampling instead:', error);
+    void audioContext?.close();
+  }
+
+  audioContext = new AudioContext();
+  return { audioContext, source: audioContext.createMediaStreamSource(stream) };
+}
+
+function convertFloat32ToInt16PCM(float32Data: Float32Array): Int16Array {
+  const int16Data = new Int16Array(float32Data.length);
+  for (let i = 0; i < float32Data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, float32Data[i]));
+    int16Data[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+  }
+  return int16Data;
+}
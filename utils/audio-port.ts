@@ -0,0 +1,157 @@
+// Audio port utility for streaming PCM chunks to the background over a long-lived Port
+
+import type { AudioChunk } from '~/utils/transcription-session';
+import { createVoiceActivityGate, gateAudioChunk, type VoiceActivityGate } from '~/utils/voice-activity';
+
+// Port names: content scripts name the video, the offscreen document the session key
+export const AUDIO_PORT_PREFIX = 'audio:';
+export const OFFSCREEN_AUDIO_PORT_PREFIX = 'offscreen-audio:';
+
+// Messages (about 250 ms of audio each) posted but not yet acknowledged by the background
+const MAX_IN_FLIGHT_MESSAGES = 8;
+// Audio chunks held back while the background catches up; the oldest are dropped beyond this
+const MAX_PENDING_CHUNKS = 8;
+
+// Extension messaging serializes to JSON, so samples travel as base64 of their 16-bit PCM bytes
+export interface AudioPortChunk {
+  type: 'chunk';
+  seq: number;
+  sampleRate: number;
+  samples: string;
+}
+
+// Audio the voice activity gate held back, reported for the popup's statistics
+export interface AudioPortSilence {
+  type: 'silence';
+  seq: number;
+  seconds: number;
+  streamEnd: boolean; // Speech just ended; the session can flush what it has
+}
+
+export type AudioPortMessage = AudioPortChunk | AudioPortSilence;
+
+// Sent back by the background once a message has been handled
+export interface AudioPortAck {
+  seq: number;
+}
+
+export interface AudioSender {
+  port: Browser.runtime.Port;
+  gate: VoiceActivityGate | null; // null streams everything, silence included
+  nextSeq: number;
+  postedSeq: number; // Last sequence number posted to the port
+  ackedSeq: number; // Last sequence number acknowledged by the background
+  pending: AudioPortMessage[];
+  droppedChunks: number;
+  isClosed: boolean;
+}
+
+// onDisconnect runs when the background drops the port, e.g. because its service worker restarted
+// and lost the session; closing the sender ourselves doesn't call it
+export function openAudioSender(portName: string, gateSilence: boolean, onDisconnect: () => void): AudioSender {
+  const sender: AudioSender = {
+    port: browser.runtime.connect({ name: portName }),
+    gate: gateSilence ? createVoiceActivityGate() : null,
+    nextSeq: 0,
+    postedSeq: -1,
+    ackedSeq: -1,
+    pending: [],
+    droppedChunks: 0,
+    isClosed: false
+  };
+
+  sender.port.onMessage.addListener((ack: AudioPortAck) => {
+    sender.ackedSeq = Math.max(sender.ackedSeq, ack.seq);
+    flushPendingMessages(sender);
+  });
+  sender.port.onDisconnect.addListener(() => {
+    sender.isClosed = true;
+    sender.pending = [];
+    onDisconnect();
+  });
+
+  return sender;
+}
+
+// Queue a chunk for the background, unless the gate holds it back as silence
+export function sendAudioChunk(sender: AudioSender, chunk: AudioChunk): void {
+  if (sender.isClosed) {
+    return;
+  }
+
+  if (!sender.gate) {
+    queueAudioChunk(sender, chunk);
+    flushPendingMessages(sender);
+    return;
+  }
+
+  const decision = gateAudioChunk(sender.gate, chunk);
+  for (const speech of decision.chunks) {
+    queueAudioChunk(sender, speech);
+  }
+  if (decision.skippedSeconds > 0 || decision.streamEnded) {
+    queueMessage(sender, {
+      type: 'silence',
+      seq: sender.nextSeq++,
+      seconds: decision.skippedSeconds,
+      streamEnd: decision.streamEnded
+    });
+  }
+  flushPendingMessages(sender);
+}
+
+export function closeAudioSender(sender: AudioSender | null): void {
+  if (sender && !sender.isClosed) {
+    sender.isClosed = true;
+    sender.pending = [];
+    sender.port.disconnect();
+  }
+}
+
+function queueAudioChunk(sender: AudioSender, chunk: AudioChunk): void {
+  queueMessage(sender, {
+    type: 'chunk',
+    seq: sender.nextSeq++,
+    sampleRate: chunk.sampleRate,
+    samples: encodeSamples(chunk.pcmData)
+  });
+}
+
+function encodeSamples(samples: Int16Array): string {
+  const bytes = new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function decodeSamples(samples: string): Int16Array {
+  const binary = atob(samples);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer);
+}
+
+// Drop the oldest waiting audio when the background can't keep up. Silence reports are tiny and
+// may end the audio stream, so they are always kept and don't count towards the limit
+function queueMessage(sender: AudioSender, message: AudioPortMessage): void {
+  sender.pending.push(message);
+
+  const pendingChunks = sender.pending.filter(pending => pending.type === 'chunk').length;
+  if (pendingChunks > MAX_PENDING_CHUNKS) {
+    const oldestChunk = sender.pending.findIndex(pending => pending.type === 'chunk');
+    sender.pending.splice(oldestChunk, 1);
+    sender.droppedChunks++;
+    console.warn(`Background is falling behind, dropped ${sender.droppedChunks} audio chunks so far`);
+  }
+}
+
+function flushPendingMessages(sender: AudioSender): void {
+  while (!sender.isClosed && sender.postedSeq - sender.ackedSeq < MAX_IN_FLIGHT_MESSAGES) {
+    const message = sender.pending.shift();
+    if (!message) {
+      return;
+    }
+    sender.port.postMessage(message);
+    sender.postedSeq = message.seq;
+  }
+}
@@ -0,0 +1,117 @@
+// Audio processing utility for cleaning up speech before it is sent for transcription
+
+export interface AudioProcessingSettings {
+  enabled: boolean;
+  highPassHz: number; // Lower edge of the speech band; removes bass-heavy music and rumble
+  lowPassHz: number; // Upper edge of the speech band; removes cymbals and crowd hiss
+  compressor: boolean;
+  compressorThreshold: number; // dBFS above which loud passages are compressed
+  compressorRatio: number;
+  normalize: boolean;
+  targetLevel: number; // Loudness (RMS dBFS) speech is normalized to
+  saveDebugAudio: boolean; // Download WAV files of the audio before and after processing
+}
+
+export const DEFAULT_AUDIO_PROCESSING_SETTINGS: AudioProcessingSettings = {
+  enabled: false,
+  highPassHz: 200,
+  lowPassHz: 4000,
+  compressor: true,
+  compressorThreshold: -30,
+  compressorRatio: 6,
+  normalize: true,
+  targetLevel: -20,
+  saveDebugAudio: false,
+};
+
+// Normalization never amplifies quieter audio than this (silence), and stays within these gains
+const NORMALIZE_MIN_RMS = 0.003;
+const NORMALIZE_MIN_GAIN = 0.25;
+const NORMALIZE_MAX_GAIN = 8;
+const NORMALIZE_TIME_CONSTANT = 0.5; // Seconds for the gain to settle on a new level
+const LEVEL_METER_SAMPLES = 8192; // About half a second at 16 kHz
+
+export interface ProcessingChain {
+  input: AudioNode;
+  output: AudioNode;
+  normalizer: GainNode | null;
+  levelMeter: AnalyserNode | null; // Level going into the normalizer
+}
+
+// Band-pass, compressor and normalizing gain, in that order; null when processing is off
+export function createProcessingChain(
+  audioContext: BaseAudioContext,
+  settings: AudioProcessingSettings
+): ProcessingChain | null {
+  if (!settings.enabled) {
+    return null;
+  }
+
+  const highPass = audioContext.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.frequency.value = settings.highPassHz;
+
+  const lowPass = audioContext.createBiquadFilter();
+  lowPass.type = 'lowpass';
+  lowPass.frequency.value = Math.min(settings.lowPassHz, audioContext.sampleRate / 2);
+
+  let output: AudioNode = highPass.connect(lowPass);
+
+  if (settings.compressor) {
+    const compressor = audioContext.createDynamicsCompressor();
+    compressor.threshold.value = settings.compressorThreshold;
+    compressor.ratio.value = settings.compressorRatio;
+    compressor.knee.value = 6;
+    compressor.attack.value = 0.005;
+    compressor.release.value = 0.2;
+    output = output.connect(compressor);
+  }
+
+  let normalizer: GainNode | null = null;
+  let levelMeter: AnalyserNode | null = null;
+  if (settings.normalize) {
+    levelMeter = audioContext.createAnalyser();
+    levelMeter.fftSize = LEVEL_METER_SAMPLES;
+    output.connect(levelMeter);
+    normalizer = audioContext.createGain();
+    output = output.connect(normalizer);
+  }
+
+  return { input: highPass, output, normalizer, levelMeter };
+}
+
+// Set the normalizing gain so the processed audio approaches the target level. The level is
+// measured before the gain, so the gain never reacts to its own changes.
+export function updateNormalizer(chain: ProcessingChain | null, settings: AudioProcessingSettings): void {
+  if (!chain?.normalizer || !chain.levelMeter) {
+    return;
+  }
+
+  const samples = new Float32Array(chain.levelMeter.fftSize);
+  chain.levelMeter.getFloatTimeDomainData(samples);
+  const rms = getRms(samples);
+  if (rms < NORMALIZE_MIN_RMS) {
+    return;
+  }
+
+  const targetRms = Math.pow(10, settings.targetLevel / 20);
+  const nextGain = Math.min(NORMALIZE_MAX_GAIN, Math.max(NORMALIZE_MIN_GAIN, targetRms / rms));
+  chain.normalizer.gain.setTargetAtTime(nextGain, chain.normalizer.context.currentTime, NORMALIZE_TIME_CONSTANT);
+}
+
+function getRms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+export async function loadAudioProcessingSettings(): Promise<AudioProcessingSettings> {
+  const { audioProcessingSettings } = await browser.storage.local.get('audioProcessingSettings');
+  return { ...DEFAULT_AUDIO_PROCESSING_SETTINGS, ...(audioProcessingSettings ?? {}) };
+}
+
+export async function saveAudioProcessingSettings(audioProcessingSettings: AudioProcessingSettings): Promise<void> {
+  await browser.storage.local.set({ audioProcessingSettings });
+}
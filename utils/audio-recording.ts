@@ -0,0 +1,72 @@
+// Audio recording utility for saving captured PCM as WAV files when debugging audio quality
+
+import { WaveFile } from 'wavefile';
+import type { AudioChunk } from '~/utils/transcription-session';
+
+export interface AudioRecording {
+  filename: string;
+  sampleRate: number;
+  chunks: Int16Array[];
+}
+
+// The audio before and after processing, recorded side by side for comparison
+export interface ProcessingRecordings {
+  before: AudioRecording;
+  after: AudioRecording;
+}
+
+export function createAudioRecording(filename: string): AudioRecording {
+  return { filename, sampleRate: 16000, chunks: [] };
+}
+
+export function createProcessingRecordings(): ProcessingRecordings {
+  const timestamp = Date.now();
+  return {
+    before: createAudioRecording(`audio_before_processing_${timestamp}.wav`),
+    after: createAudioRecording(`audio_after_processing_${timestamp}.wav`)
+  };
+}
+
+export function downloadProcessingRecordings(recordings: ProcessingRecordings | null): void {
+  if (recordings) {
+    downloadRecording(recordings.before);
+    downloadRecording(recordings.after);
+  }
+}
+
+export function appendToRecording(recording: AudioRecording, chunk: AudioChunk): void {
+  recording.sampleRate = chunk.sampleRate;
+  recording.chunks.push(chunk.pcmData);
+}
+
+// Download everything recorded so far as a single WAV file
+export function downloadRecording(recording: AudioRecording): void {
+  if (recording.chunks.length === 0) {
+    return;
+  }
+
+  const totalLength = recording.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const pcmData = new Int16Array(totalLength);
+  let offset = 0;
+  for (const chunk of recording.chunks) {
+    pcmData.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  // Create WAV file using wavefile package
+  const wav = new WaveFile();
+  wav.fromScratch(1, recording.sampleRate, '16', pcmData);
+  const blob = new Blob([wav.toBuffer()], { type: 'audio/wav' });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = recording.filename;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+
+  console.log(`Downloaded audio recording: ${recording.filename} (${blob.size} bytes)`);
+}
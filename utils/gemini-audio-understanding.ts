@@ -1,5 +1,14 @@
 import { GoogleGenAI } from '@google/genai';
 import { WaveFile } from 'wavefile';
+import { describeSessionError } from '~/utils/session-status';
+import {
+  ConnectionState,
+  createSegmentId,
+  type AudioChunk,
+  type SessionStatusCallback,
+  type TranscriptionResult,
+  type TranscriptionSession
+} from '~/utils/transcription-session';
 
 // Gemini Audio Understanding configuration
 export interface GeminiConfig {
@@ -7,67 +16,42 @@ export interface GeminiConfig {
   model: string;
 }
 
-// Connection states for tracking session status
-export enum ConnectionState {
-  DISCONNECTED = 'disconnected',
-  CONNECTING = 'connecting',
-  CONNECTED = 'connected',
-  FAILED = 'failed'
-}
-
-// System prompt for Korean entertainment subtitle processing
-const SYSTEM_PROMPT = `請執行韓國娛樂人士語音字幕處理任務：
-
-**適用對象**：韓國偶像、明星、演員
-**處理規則**：
-- 韓語內容：翻譯為繁體中文
-- 中文/英文內容：保持原文不翻譯
-- 混合語言：分別按語言處理
-
-**輸出要求**：
-1. 翻譯背景：基於韓國娛樂圈文化進行翻譯
-2. 專業術語：準確翻譯韓流相關用語、敬語、粉絲文化用詞
-3. 語言識別：僅輸出中文或英文
-4. 不需要標記時間，只需要將字幕內容分段輸出為純文本
-5. 只回傳字幕內容就好，如果沒有內容就回傳空字串`;
-
 // Gemini Audio Understanding Session for batch speech recognition
-export class GeminiAudioUnderstandingSession {
+export class GeminiAudioUnderstandingSession implements TranscriptionSession {
   private genAI: GoogleGenAI | null = null;
   private config: GeminiConfig | null = null;
-  private audioContext: AudioContext | null = null;
-  private mediaStreamSource: MediaStreamAudioSourceNode | null = null;
-  private analyserNode: AnalyserNode | null = null;
-  private captureTimer: number | null = null;
-  private audioBufferQueue: Float32Array[] = [];
+  private audioBufferQueue: Int16Array[] = [];
   private isProcessing = false;
-  private updateSubtitleCallback: ((text: string) => void) | null = null;
-  private currentMediaStream: MediaStream | null = null;
+  private updateSubtitleCallback: ((result: TranscriptionResult) => void) | null = null;
+  private statusCallback: SessionStatusCallback | null = null;
   private connectionState: ConnectionState = ConnectionState.DISCONNECTED;
   private apiKey: string;
+  private systemInstruction: string;
 
   // Audio configuration
-  private targetSampleRate = 16000;
+  private sampleRate = 16000; // Updated from each chunk
   private batchDurationMs = 4000; // Accumulate 4 seconds of audio before processing
-  private chunkDurationMs = 1000; // Capture audio every 1 second
-  private accumulatedDurationMs = 0;
+  private accumulatedSamples = 0;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, systemInstruction: string) {
     this.apiKey = apiKey;
+    this.systemInstruction = systemInstruction;
     console.log('GeminiAudioUnderstandingSession created');
   }
 
-  // Computed properties for audio capture
-  private get fftSize(): number {
-    const samplesNeeded = this.targetSampleRate * this.chunkDurationMs / 1000;
-    return Math.pow(2, Math.ceil(Math.log2(samplesNeeded)));
+  private get batchSamples(): number {
+    return this.sampleRate * this.batchDurationMs / 1000;
   }
 
-  async connect(updateSubtitle: (text: string) => void): Promise<boolean> {
+  async connect(
+    updateSubtitle: (result: TranscriptionResult) => void,
+    onStatusChange: SessionStatusCallback | null = null
+  ): Promise<boolean> {
     console.log('Initializing Gemini Audio Understanding session...');
 
-    this.connectionState = ConnectionState.CONNECTING;
     this.updateSubtitleCallback = updateSubtitle;
+    this.statusCallback = onStatusChange;
+    this.setConnectionState(ConnectionState.CONNECTING);
 
     try {
       this.config = {
@@ -79,84 +63,36 @@ export class GeminiAudioUnderstandingSession {
         apiKey: this.config.apiKey,
       });
 
-      this.connectionState = ConnectionState.CONNECTED;
+      // Reset buffer queue
+      this.audioBufferQueue = [];
+      this.accumulatedSamples = 0;
+
+      this.setConnectionState(ConnectionState.CONNECTED);
       console.log('Gemini Audio Understanding session initialized');
       return true;
     } catch (error) {
       console.error('Failed to initialize Gemini session:', error);
-      this.connectionState = ConnectionState.FAILED;
+      this.setConnectionState(ConnectionState.FAILED, describeSessionError(error).reason);
       return false;
     }
   }
 
-  async startAudioProcessing(mediaStream: MediaStream): Promise<void> {
-    if (!this.genAI) {
-      console.error('Cannot start audio processing: session not initialized');
-      return;
-    }
-
-    this.currentMediaStream = mediaStream;
-
-    try {
-      this.audioContext = new AudioContext({ sampleRate: this.targetSampleRate });
-      this.mediaStreamSource = this.audioContext.createMediaStreamSource(mediaStream);
-
-      // Create AnalyserNode for audio data capture
-      this.analyserNode = this.audioContext.createAnalyser();
-      this.analyserNode.fftSize = this.fftSize;
-      this.analyserNode.smoothingTimeConstant = 0;
-
-      // Connect audio graph: MediaStream -> AnalyserNode
-      this.mediaStreamSource.connect(this.analyserNode);
-
-      // Reset buffer queue
-      this.audioBufferQueue = [];
-      this.accumulatedDurationMs = 0;
-
-      // Start periodic audio capture
-      this.startAudioCapture();
-
-      console.log('Audio processing started with batch mode');
-    } catch (error) {
-      console.error('Error starting audio processing:', error);
-    }
+  // Batch requests are independent, so there is never anything to reconnect
+  private setConnectionState(state: ConnectionState, reason: string | null = null): void {
+    this.connectionState = state;
+    this.statusCallback?.({ state, reconnectAttempt: 0, maxReconnectAttempts: 0, reason });
   }
 
-  stopAudioProcessing(): void {
-    if (this.captureTimer) {
-      clearInterval(this.captureTimer);
-      this.captureTimer = null;
-    }
-
-    if (this.analyserNode) {
-      this.analyserNode.disconnect();
-      this.analyserNode = null;
-    }
-
-    if (this.mediaStreamSource) {
-      this.mediaStreamSource.disconnect();
-      this.mediaStreamSource = null;
-    }
-
-    if (this.audioContext) {
-      this.audioContext.close();
-      this.audioContext = null;
-    }
-
-    // Process any remaining audio in the queue
+  async disconnect(): Promise<void> {
+    // Process any remaining audio in the queue before shutting down
     if (this.audioBufferQueue.length > 0 && !this.isProcessing) {
-      this.processAudioQueue();
+      await this.processAudioQueue();
     }
 
-    console.log('Audio processing stopped');
-  }
-
-  async disconnect(): Promise<void> {
-    this.connectionState = ConnectionState.DISCONNECTED;
-    this.stopAudioProcessing();
+    this.setConnectionState(ConnectionState.DISCONNECTED);
     this.genAI = null;
     this.audioBufferQueue = [];
-    this.accumulatedDurationMs = 0;
+    this.accumulatedSamples = 0;
     console.log('Gemini Audio Understanding session disconnected');
   }
 
@@ -164,33 +100,37 @@ export class GeminiAudioUnderstandingSession {
     return this.connectionState;
   }
 
-  // Method for compatibility with background.ts (not used in batch mode)
-  sendAudioData(_audioData: { data: string; mimeType: string }): void {
-    // Not used in batch mode - audio is captured directly
-    console.warn('sendAudioData called but batch mode captures audio directly');
-  }
-
-  private startAudioCapture(): void {
-    if (!this.analyserNode) return;
-
-    const bufferLength = this.analyserNode.fftSize;
-    const audioBuffer = new Float32Array(bufferLength);
+  // Queue PCM chunks from the content script until a batch is full
+  sendAudioData(audioData: AudioChunk): void {
+    if (!this.genAI) {
+      console.error('Cannot send audio: session not initialized');
+      return;
+    }
+    if (this.connectionState === ConnectionState.FAILED) {
+      return; // Requests can't succeed, e.g. with an invalid key
+    }
 
-    this.captureTimer = window.setInterval(() => {
-      if (this.analyserNode) {
-        // Get time domain data (raw audio samples)
-        this.analyserNode.getFloatTimeDomainData(audioBuffer);
+    try {
+      this.sampleRate = audioData.sampleRate;
 
-        // Add to buffer queue
-        this.audioBufferQueue.push(new Float32Array(audioBuffer));
-        this.accumulatedDurationMs += this.chunkDurationMs;
+      const pcmData = audioData.pcmData;
+      this.audioBufferQueue.push(pcmData);
+      this.accumulatedSamples += pcmData.length;
 
-        // Process queue when we've accumulated enough audio
-        if (this.accumulatedDurationMs >= this.batchDurationMs && !this.isProcessing) {
-          this.processAudioQueue();
-        }
+      // Process queue when we've accumulated enough audio
+      if (this.accumulatedSamples >= this.batchSamples && !this.isProcessing) {
+        void this.processAudioQueue();
       }
-    }, this.chunkDurationMs);
+    } catch (error) {
+      console.error('Error queueing audio data:', error);
+    }
+  }
+
+  // Speech stopped: transcribe what has accumulated instead of waiting for a full batch
+  endAudioStream(): void {
+    if (this.audioBufferQueue.length > 0 && !this.isProcessing) {
+      void this.processAudioQueue();
+    }
   }
 
   private async processAudioQueue(): Promise<void> {
@@ -202,14 +142,12 @@ export class GeminiAudioUnderstandingSession {
 
     try {
       // Combine all buffers
-      const combinedBuffer = this.combineAudioBuffers(this.audioBufferQueue);
+      const pcmData = this.combineAudioBuffers(this.audioBufferQueue);
 
       // Clear the queue and reset duration
       this.audioBufferQueue = [];
-      this.accumulatedDurationMs = 0;
+      this.accumulatedSamples = 0;
 
-      // Convert to Int16 PCM then to WAV
-      const pcmData = this.convertFloat32ToInt16PCM(combinedBuffer);
       const wavBase64 = this.createWavBase64(pcmData);
 
       // Send to Gemini generateContent API
@@ -226,7 +164,7 @@ export class GeminiAudioUnderstandingSession {
                 },
               },
               {
-                text: SYSTEM_PROMPT,
+                text: this.systemInstruction,
               },
             ],
           },
@@ -238,18 +176,30 @@ export class GeminiAudioUnderstandingSession {
 
       if (text && this.updateSubtitleCallback) {
         console.log('Transcription result:', text);
-        this.updateSubtitleCallback(text);
+        // Batch responses only contain the translation and are always final
+        this.updateSubtitleCallback({ segmentId: createSegmentId(), text, original: '', isFinal: true });
       }
     } catch (error) {
       console.error('Error processing audio queue:', error);
+
+      // Transient errors only lose this batch; others stop the session
+      const { reason, isRetryable } = describeSessionError(error);
+      if (!isRetryable) {
+        this.setConnectionState(ConnectionState.FAILED, reason);
+      }
     } finally {
       this.isProcessing = false;
     }
+
+    // More audio may have arrived while the request was in flight
+    if (this.accumulatedSamples >= this.batchSamples) {
+      void this.processAudioQueue();
+    }
   }
 
-  private combineAudioBuffers(buffers: Float32Array[]): Float32Array {
+  private combineAudioBuffers(buffers: Int16Array[]): Int16Array {
     const totalLength = buffers.reduce((sum, buf) => sum + buf.length, 0);
-    const combined = new Float32Array(totalLength);
+    const combined = new Int16Array(totalLength);
 
     let offset = 0;
     for (const buffer of buffers) {
@@ -260,21 +210,10 @@ export class GeminiAudioUnderstandingSession {
     return combined;
   }
 
-  private convertFloat32ToInt16PCM(float32Data: Float32Array): Int16Array {
-    const int16Data = new Int16Array(float32Data.length);
-
-    for (let i = 0; i < float32Data.length; i++) {
-      const sample = Math.max(-1, Math.min(1, float32Data[i]));
-      int16Data[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
-    }
-
-    return int16Data;
-  }
-
   private createWavBase64(pcmData: Int16Array): string {
     // Create WAV file using wavefile package
     const wav = new WaveFile();
-    wav.fromScratch(1, this.targetSampleRate, '16', pcmData);
+    wav.fromScratch(1, this.sampleRate, '16', pcmData);
 
     // Convert to buffer and then to base64
     const wavBuffer = wav.toBuffer();
@@ -1,5 +1,29 @@
-import { ActivityHandling, EndSensitivity, GoogleGenAI, Modality, StartSensitivity, TurnCoverage } from '@google/genai';
-import { WaveFile } from 'wavefile';
+import {
+  ActivityHandling,
+  EndSensitivity,
+  GoogleGenAI,
+  Modality,
+  StartSensitivity,
+  TurnCoverage,
+  type Session
+} from '@google/genai';
+import { startAudioChunker, stopAudioChunker, type AudioChunker } from '~/utils/audio-chunker';
+import { DEFAULT_AUDIO_PROCESSING_SETTINGS, type AudioProcessingSettings } from '~/utils/audio-processing';
+import {
+  appendToRecording,
+  createProcessingRecordings,
+  downloadProcessingRecordings,
+  type ProcessingRecordings
+} from '~/utils/audio-recording';
+import { describeSessionError } from '~/utils/session-status';
+import {
+  ConnectionState,
+  createSegmentId,
+  type AudioChunk,
+  type SessionStatusCallback,
+  type TranscriptionResult,
+  type TranscriptionSession
+} from '~/utils/transcription-session';
 
 // Gemini Live API configuration
 interface GeminiConfig {
@@ -7,27 +31,28 @@ interface GeminiConfig {
   model: string;
 }
 
-// Connection states for tracking Gemini session status
-enum ConnectionState {
-  DISCONNECTED = 'disconnected',
-  CONNECTING = 'connecting',
-  CONNECTED = 'connected',
-  RECONNECTING = 'reconnecting',
-  FAILED = 'failed'
+// A socket the server is about to close, kept open until it finishes translating the audio it got
+interface DrainingSocket {
+  session: Session;
+  connectionId: number;
+  timeoutId: ReturnType<typeof setTimeout>;
 }
 
+// Fallback when a goAway notice doesn't say how long the socket stays open
+const DEFAULT_GO_AWAY_SECONDS = 5;
+
 // Gemini Live Session for real-time speech recognition
-export class GeminiLiveSession {
+export class GeminiLiveSession implements TranscriptionSession {
   private config: GeminiConfig | null = null;
   private session: any = null;
   private currentTurnText = ''; // Accumulate text within a turn
-  private audioContext: AudioContext | null = null;
-  private mediaStreamSource: MediaStreamAudioSourceNode | null = null;
-  private analyserNode: AnalyserNode | null = null;
-  private captureTimer: number | null = null;
-  private targetSampleRate = 16000;
-  private chunkDurationMs = 250; // 1 second audio chunks
-  private saveProcessedAudio = false; // Set to false to disable processed audio saving
+  private currentTurnOriginal = ''; // Accumulate the input transcription within a turn
+  private currentSegmentId = createSegmentId(); // Shared by the interim and final results of a turn
+  private hasInterimResult = false; // An interim result of the current turn was shown and needs a final one
+  private audioChunker: AudioChunker | null = null;
+  private saveProcessedAudio = false; // Set to true to download the audio before and after processing
+  private processingRecordings: ProcessingRecordings | null = null;
+  private audioProcessing: AudioProcessingSettings = DEFAULT_AUDIO_PROCESSING_SETTINGS;
 
   // Reconnection management
   private connectionState: ConnectionState = ConnectionState.DISCONNECTED;
@@ -37,87 +62,142 @@ export class GeminiLiveSession {
   private baseReconnectDelay = 1000; // 1 second
   private maxReconnectDelay = 30000; // 30 seconds
   private reconnectTimeoutId: number | null = null;
-  private updateSubtitleCallback: ((text: string) => void) | null = null;
+  private connectionId = 0; // Identifies the current socket; events from replaced ones are ignored
+  private lastErrorReason: string | null = null; // From the socket's error event, reported when it closes
+  private resumptionHandle: string | null = null; // Lets a new socket continue this session's context
+  private isResuming = false; // Switching sockets after a goAway notice
+  private drainingSocket: DrainingSocket | null = null; // Old socket finishing its turn; audio waits meanwhile
+  private bufferedAudio: AudioChunk[] = []; // Audio that arrived while no socket was open
+  private maxBufferedAudioSeconds = 3; // Cues are timed by their arrival, so older audio would show late
+  private updateSubtitleCallback: ((result: TranscriptionResult) => void) | null = null;
+  private statusCallback: SessionStatusCallback | null = null;
   private currentMediaStream: MediaStream | null = null;
   private apiKey: string;
+  private systemInstruction: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, systemInstruction: string) {
     this.apiKey = apiKey;
+    this.systemInstruction = systemInstruction;
     console.log('GeminiLiveSession created');
   }
 
-  // Computed properties based on chunk duration
-  private get fftSize(): number {
-    // Calculate samples needed for desired duration, round up to nearest power of 2
-    const samplesNeeded = this.targetSampleRate * this.chunkDurationMs / 1000;
-    return Math.pow(2, Math.ceil(Math.log2(samplesNeeded)));
-  }
-
-  private get captureInterval(): number {
-    return this.chunkDurationMs;
-  }
-
-  async connect(updateSubtitle: ((text: string) => void)) {
+  async connect(
+    updateSubtitle: ((result: TranscriptionResult) => void),
+    onStatusChange: SessionStatusCallback | null = this.statusCallback
+  ): Promise<boolean> {
     console.log('Attempting to connect to Gemini Live API...');
 
-    this.connectionState = ConnectionState.CONNECTING;
     this.updateSubtitleCallback = updateSubtitle;
+    this.statusCallback = onStatusChange;
+    this.isIntentionalDisconnect = false;
+    // Reconnection attempts keep reporting as reconnecting until one succeeds
+    if (this.connectionState !== ConnectionState.RECONNECTING) {
+      this.setConnectionState(ConnectionState.CONNECTING);
+    }
 
     this.config = {
       apiKey: this.apiKey, // Use API key from constructor
       model: 'gemini-2.5-flash-native-audio-preview-12-2025', // Default model
     }
 
+    await this.openConnection();
+    return true;
+  }
+
+  // Open a socket, resuming the previous one's context when the server gave us a handle
+  private async openConnection(): Promise<void> {
+    if (!this.config) {
+      throw new Error('Session not configured');
+    }
+
+    const connectionId = ++this.connectionId;
     const ai = new GoogleGenAI({
       apiKey: this.config.apiKey,
     });
 
-    this.session = await ai.live.connect({
+    const session = await ai.live.connect({
       model: this.config.model,
       callbacks: {
         onopen: () => {
+          if (connectionId !== this.connectionId) {
+            return;
+          }
           console.debug('Gemini connection opened');
-          this.connectionState = ConnectionState.CONNECTED;
           this.reconnectAttempts = 0; // Reset reconnection attempts on successful connection
+          this.setConnectionState(ConnectionState.CONNECTED);
+          this.flushBufferedAudio();
         },
         onmessage: (message) => {
-          // console.log('Received message:', message);
-          console.log('123', message.serverContent?.inputTranscription)
-          return
+          const isDraining = connectionId === this.drainingSocket?.connectionId;
+          if (connectionId !== this.connectionId && !isDraining) {
+            return;
+          }
+
+          // Keep the newest handle so a later socket can pick up where this one stops
+          const resumptionUpdate = message.sessionResumptionUpdate;
+          if (!isDraining && resumptionUpdate?.resumable && resumptionUpdate.newHandle) {
+            this.resumptionHandle = resumptionUpdate.newHandle;
+          }
+
+          // The server is about to close this socket (e.g. its time limit); switch before it does
+          if (message.goAway && !isDraining) {
+            console.log('Gemini connection closing soon, time left:', message.goAway.timeLeft);
+            void this.resumeSession(message.goAway.timeLeft);
+          }
+
+          const serverContent = message.serverContent;
+          if (!serverContent) {
+            return;
+          }
+
+          let hasNewText = false;
+
+          // Source-language transcript of the input audio
+          if (serverContent.inputTranscription?.text) {
+            this.currentTurnOriginal += serverContent.inputTranscription.text;
+            hasNewText = true;
+          }
 
           // Handle transcription responses
-          if (message.serverContent) {
-            if (message.serverContent.modelTurn && message.serverContent.modelTurn.parts) {
-              for (const part of message.serverContent.modelTurn.parts) {
-                if (part.text) {
-                  this.currentTurnText += part.text;
-                }
+          if (serverContent.modelTurn?.parts) {
+            for (const part of serverContent.modelTurn.parts) {
+              if (part.text) {
+                this.currentTurnText += part.text;
+                hasNewText = true;
               }
             }
+          }
 
-            // When turn is complete, send accumulated text
-            if (message.serverContent.turnComplete) {
-              if (this.currentTurnText.trim()) {
-                // console.log('Turn completed with text:', this.currentTurnText);
-                if (this.updateSubtitleCallback) {
-                  this.updateSubtitleCallback(this.currentTurnText);
-                }
-                this.currentTurnText = ''; // Reset for next turn
-              }
+          // When turn is complete, send accumulated text; until then stream it as interim results
+          if (serverContent.turnComplete) {
+            this.finishTurn();
+            if (isDraining) {
+              this.finishDraining(); // Everything sent to the old socket is translated
             }
+          } else if (hasNewText) {
+            this.emitResult(false);
           }
         },
         onerror: (e) => {
           console.debug('Gemini connection error:', e.message);
-          this.connectionState = ConnectionState.FAILED;
+          if (connectionId === this.connectionId) {
+            this.lastErrorReason = e.message;
+          }
         },
         onclose: (e) => {
           console.debug('Gemini connection closed:', e.reason);
-          this.handleConnectionClose(e);
+          if (connectionId === this.drainingSocket?.connectionId) {
+            this.finishDraining();
+          } else if (connectionId === this.connectionId) {
+            this.handleConnectionClose(e);
+          }
         },
       },
       config: {
         responseModalities: [Modality.TEXT],
+        sessionResumption: { handle: this.resumptionHandle ?? undefined },
+        contextWindowCompression: { slidingWindow: {} }, // Lifts the session length limit for long videos
+        inputAudioTranscription: {}, // Also return the source-language transcript
         realtimeInputConfig: {
           automaticActivityDetection: {
             disabled: false, // default
@@ -128,57 +208,162 @@ export class GeminiLiveSession {
           },
           activityHandling: ActivityHandling.NO_INTERRUPTION,
         },
-        systemInstruction: `請執行韓國娛樂人士語音即時字幕處理任務：
-
-**適用對象**：韓國偶像、演員
-**處理規則**：
-- 韓語內容：翻譯為繁體中文
-- 中文/英文內容：保持原文不翻譯
-- 混合語言：分別按語言處理
-- 請準確翻譯所有聽到的內容，不要省略任何句子
-- 可能同時有多人說話，請全部翻譯出來，寧願多翻或錯翻也不要缺少翻譯
-
-**輸出要求**：
-1. 即時處理：完成後立即傳回，避免延遲
-2. 字幕格式：每句話獨立處理，翻譯好一句就先傳回來同時繼續翻譯
-3. 翻譯背景：基於韓國娛樂圈文化進行翻譯
-4. 專業術語：準確翻譯韓流相關用語、敬語、粉絲文化用詞
-5. 語言識別：僅輸出中文或英文`,
+        systemInstruction: this.systemInstruction,
       },
     });
 
+    if (connectionId !== this.connectionId) {
+      session.close(); // Replaced (or disconnected) while connecting
+      return;
+    }
+    this.session = session;
+    this.flushBufferedAudio();
+  }
 
-    return true;
+  // Replace the socket with one resuming the same session. The old socket keeps running until it
+  // completes its turn or its time is up, so the audio it already got is still translated; new audio
+  // is buffered for the new socket meanwhile
+  private async resumeSession(timeLeft: string | undefined): Promise<void> {
+    if (this.isResuming || this.drainingSocket || this.isIntentionalDisconnect || !this.session) {
+      return;
+    }
+    this.isResuming = true;
+
+    // Ask the old socket to finish the current turn now instead of waiting for more audio
+    const previous = this.session;
+    try {
+      previous.sendRealtimeInput({ audioStreamEnd: true });
+    } catch (error) {
+      console.error('Error ending audio stream:', error);
+    }
+
+    const seconds = parseFloat(timeLeft ?? '') || DEFAULT_GO_AWAY_SECONDS;
+    this.drainingSocket = {
+      session: previous,
+      connectionId: this.connectionId,
+      timeoutId: setTimeout(() => this.finishDraining(), Math.max(0, seconds - 1) * 1000)
+    };
+    this.session = null;
+
+    try {
+      await this.openConnection();
+      console.log('Gemini session resumed on a new connection');
+    } catch (error) {
+      console.error('Error resuming Gemini session:', error);
+      this.finishDraining();
+      const { reason } = describeSessionError(error);
+      void this.attemptReconnection(reason);
+    } finally {
+      this.isResuming = false;
+    }
+  }
+
+  // Close the old socket after a goAway, ending whatever turn it left unfinished, and send the
+  // audio buffered in the meantime to the new socket
+  private finishDraining(): void {
+    const drainingSocket = this.drainingSocket;
+    if (!drainingSocket) {
+      return;
+    }
+    this.drainingSocket = null;
+    clearTimeout(drainingSocket.timeoutId);
+
+    this.finishTurn();
+    try {
+      drainingSocket.session.close();
+    } catch (error) {
+      console.error('Error closing Gemini session:', error);
+    }
+    this.flushBufferedAudio();
+  }
+
+  // Replay audio held back while reconnecting, oldest first
+  private flushBufferedAudio(): void {
+    if (!this.session || this.connectionState !== ConnectionState.CONNECTED || this.drainingSocket) {
+      return;
+    }
+
+    const bufferedAudio = this.bufferedAudio;
+    this.bufferedAudio = [];
+    if (bufferedAudio.length > 0) {
+      console.log(`Replaying ${bufferedAudio.length} audio chunks buffered while reconnecting`);
+    }
+    for (const audioData of bufferedAudio) {
+      this.sendAudioData(audioData);
+    }
+  }
+
+  private bufferAudio(audioData: AudioChunk): void {
+    this.bufferedAudio.push(audioData);
+
+    // Keep only the most recent audio; cues for anything older would show well after it was heard
+    let bufferedSeconds = this.bufferedAudio.reduce((sum, chunk) => sum + chunk.pcmData.length / chunk.sampleRate, 0);
+    while (bufferedSeconds > this.maxBufferedAudioSeconds && this.bufferedAudio.length > 1) {
+      const dropped = this.bufferedAudio.shift() as AudioChunk;
+      bufferedSeconds -= dropped.pcmData.length / dropped.sampleRate;
+    }
+  }
+
+  // Record a state change and report it, with a human-readable reason where there is one
+  private setConnectionState(state: ConnectionState, reason: string | null = null): void {
+    this.connectionState = state;
+    this.statusCallback?.({
+      state,
+      reconnectAttempt: this.reconnectAttempts,
+      maxReconnectAttempts: this.maxReconnectAttempts,
+      reason
+    });
+  }
+
+  private emitResult(isFinal: boolean): void {
+    this.hasInterimResult = !isFinal;
+    this.updateSubtitleCallback?.({
+      segmentId: this.currentSegmentId,
+      text: this.currentTurnText.trim(),
+      original: this.currentTurnOriginal.trim(),
+      isFinal
+    });
   }
 
-  async startAudioProcessing(mediaStream: MediaStream): Promise<void> {
+  // Send the turn's final result and start the next turn. A final result goes out even without a
+  // translation when interim results were shown, so the content script can drop their tentative cue
+  private finishTurn(): void {
+    if (this.currentTurnText.trim() || this.hasInterimResult) {
+      this.emitResult(true);
+    }
+    this.currentTurnText = ''; // Reset for next turn
+    this.currentTurnOriginal = '';
+    this.currentSegmentId = createSegmentId();
+  }
+
+  async startAudioProcessing(
+    mediaStream: MediaStream,
+    audioProcessing: AudioProcessingSettings = this.audioProcessing
+  ): Promise<void> {
     if (!this.session) {
       console.error('Cannot start audio processing: session not connected');
       return;
     }
 
     this.currentMediaStream = mediaStream; // Store for potential reconnection
+    this.audioProcessing = audioProcessing;
 
     try {
-      this.audioContext = new AudioContext({sampleRate: this.targetSampleRate});
-      this.mediaStreamSource = this.audioContext.createMediaStreamSource(mediaStream);
-
-      // Create AnalyserNode for audio data capture
-      this.analyserNode = this.audioContext.createAnalyser();
-      this.analyserNode.fftSize = this.fftSize; // Calculated from chunk duration
-      this.analyserNode.smoothingTimeConstant = 0;
-
       if (this.saveProcessedAudio) {
-        console.log('Processed audio saving enabled - WAV files will be auto-downloaded');
+        console.log('Processed audio saving enabled - WAV files will be downloaded when processing stops');
+        this.processingRecordings = createProcessingRecordings();
       }
 
-      // Connect audio graph: MediaStream -> AnalyserNode
-      this.mediaStreamSource.connect(this.analyserNode);
-
-      // Start periodic audio capture
-      this.startAudioCapture();
+      // Stream contiguous 16 kHz frames from the AudioWorklet
+      const recordings = this.processingRecordings;
+      this.audioChunker = await startAudioChunker(mediaStream, (audioData) => {
+        this.processAudioData(audioData);
+      }, {
+        processing: audioProcessing,
+        onRawChunk: recordings ? (audioData) => appendToRecording(recordings.before, audioData) : undefined
+      });
 
-      console.log('Audio processing started with AnalyserNode');
+      console.log('Audio processing started with AudioWorklet');
     } catch (error) {
       console.error('Error starting audio processing:', error);
     }
@@ -186,13 +371,17 @@ export class GeminiLiveSession {
 
   async disconnect(): Promise<void> {
     this.isIntentionalDisconnect = true; // Mark as intentional disconnect
-    this.connectionState = ConnectionState.DISCONNECTED;
+    this.setConnectionState(ConnectionState.DISCONNECTED);
 
     // Clear any pending reconnection attempts
     if (this.reconnectTimeoutId) {
       clearTimeout(this.reconnectTimeoutId);
       this.reconnectTimeoutId = null;
     }
+    this.connectionId++; // A socket still connecting is closed as soon as it opens
+    this.bufferedAudio = [];
+    this.finishDraining();
+    this.resumptionHandle = null;
 
     this.stopAudioProcessing();
     if (this.session) {
@@ -207,8 +396,9 @@ export class GeminiLiveSession {
   }
 
   // Handle connection closure and determine if reconnection is needed
-  private handleConnectionClose(_closeEvent: any): void {
+  private handleConnectionClose(closeEvent: CloseEvent): void {
     console.log('Connection closed. Intentional:', this.isIntentionalDisconnect);
+    this.session = null; // Audio is buffered until a new socket opens
 
     if (this.isIntentionalDisconnect) {
       // This was an intentional disconnect, don't reconnect
@@ -217,19 +407,28 @@ export class GeminiLiveSession {
       return;
     }
 
+    // Reconnecting can't fix e.g. an invalid key, which the server reports as the close reason
+    const { reason, isRetryable } = describeSessionError(closeEvent.reason || this.lastErrorReason);
+    this.lastErrorReason = null;
+    if (!isRetryable) {
+      console.error('Connection closed permanently:', reason);
+      this.setConnectionState(ConnectionState.FAILED, reason);
+      return;
+    }
+
     // This was an unexpected disconnect, attempt reconnection
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.connectionState = ConnectionState.RECONNECTING;
-      void this.attemptReconnection();
+      void this.attemptReconnection(reason);
     } else {
       console.error('Max reconnection attempts reached. Connection failed permanently.');
-      this.connectionState = ConnectionState.FAILED;
+      this.setConnectionState(ConnectionState.FAILED, reason);
     }
   }
 
   // Attempt to reconnect with exponential backoff
-  private async attemptReconnection(): Promise<void> {
+  private async attemptReconnection(reason: string | null): Promise<void> {
     this.reconnectAttempts++;
+    this.setConnectionState(ConnectionState.RECONNECTING, reason);
 
     // Calculate delay using exponential backoff
     const delay = Math.min(
@@ -239,18 +438,18 @@ export class GeminiLiveSession {
 
     console.log(`Attempting reconnection ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms...`);
 
+    // Without a handle the new socket starts a fresh session, so the unfinished turn ends here
+    if (!this.resumptionHandle) {
+      this.finishTurn();
+    }
+
     this.reconnectTimeoutId = setTimeout(async () => {
       try {
-        if (!this.updateSubtitleCallback) {
-          console.error('Cannot reconnect: subtitle callback not available');
-          return;
-        }
-
-        // Attempt to reconnect
-        await this.connect(this.updateSubtitleCallback);
+        // Attempt to reconnect, resuming the session when possible; buffered audio is replayed
+        await this.openConnection();
 
-        // If reconnection successful and we have a media stream, restart audio processing
-        if (this.currentMediaStream && this.connectionState === ConnectionState.CONNECTED) {
+        // Audio processing keeps running while reconnecting; only start it if it never did
+        if (this.currentMediaStream && !this.audioChunker && this.connectionState === ConnectionState.CONNECTED) {
           await this.startAudioProcessing(this.currentMediaStream);
           console.log('Reconnection successful. Audio processing resumed.');
         }
@@ -259,11 +458,12 @@ export class GeminiLiveSession {
         console.error(`Reconnection attempt ${this.reconnectAttempts} failed:`, error);
 
         // If this wasn't the last attempt, try again
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
-          void this.attemptReconnection();
+        const { reason, isRetryable } = describeSessionError(error);
+        if (isRetryable && this.reconnectAttempts < this.maxReconnectAttempts) {
+          void this.attemptReconnection(reason);
         } else {
           console.error('All reconnection attempts failed. Connection permanently failed.');
-          this.connectionState = ConnectionState.FAILED;
+          this.setConnectionState(ConnectionState.FAILED, reason);
         }
       }
     }, delay);
@@ -292,7 +492,7 @@ export class GeminiLiveSession {
 
       await this.connect(this.updateSubtitleCallback);
 
-      if (this.currentMediaStream && this.connectionState === ConnectionState.CONNECTED) {
+      if (this.currentMediaStream && !this.audioChunker && this.connectionState === ConnectionState.CONNECTED) {
         await this.startAudioProcessing(this.currentMediaStream);
         console.log('Manual reconnection successful.');
         return true;
@@ -305,137 +505,76 @@ export class GeminiLiveSession {
     }
   }
 
-  // Public method to send pre-processed audio data from content script
-  sendAudioData(audioData: { data: string, mimeType: string }): void {
-    if (!this.session) {
-      console.error('Cannot send audio: session not connected');
+  // Public method to send pre-processed audio data from content script, base64-encoded for Gemini
+  sendAudioData(audioData: AudioChunk): void {
+    if (this.connectionState === ConnectionState.DISCONNECTED || this.connectionState === ConnectionState.FAILED) {
+      return;
+    }
+
+    // Hold audio while a socket is (re)opening or the old one drains; it is replayed once connected
+    if (!this.session || this.connectionState !== ConnectionState.CONNECTED || this.drainingSocket) {
+      this.bufferAudio(audioData);
       return;
     }
 
     try {
       this.session.sendRealtimeInput({
-        audio: audioData
+        audio: {
+          data: this.arrayBufferToBase64(audioData.pcmData),
+          mimeType: `audio/pcm;rate=${audioData.sampleRate}`
+        }
       });
     } catch (error) {
       console.error('Error sending audio data to Gemini:', error);
     }
   }
 
-  stopAudioProcessing(): void {
-    if (this.captureTimer) {
-      clearInterval(this.captureTimer);
-      this.captureTimer = null;
-    }
-
-    if (this.analyserNode) {
-      this.analyserNode.disconnect();
-      this.analyserNode = null;
-    }
-
-    if (this.mediaStreamSource) {
-      this.mediaStreamSource.disconnect();
-      this.mediaStreamSource = null;
-    }
-
-    if (this.audioContext) {
-      this.audioContext.close();
-      this.audioContext = null;
+  // Tell Gemini no audio follows for now, so it finishes the current turn instead of waiting
+  endAudioStream(): void {
+    if (!this.session) {
+      return;
     }
 
-    console.log('Audio processing stopped');
-  }
-
-  private startAudioCapture(): void {
-    if (!this.analyserNode) return;
-
-    const bufferLength = this.analyserNode.fftSize;
-    const audioBuffer = new Float32Array(bufferLength);
-
-    this.captureTimer = setInterval(() => {
-      if (this.analyserNode) {
-        // Get time domain data (raw audio samples) - send immediately
-        this.analyserNode.getFloatTimeDomainData(audioBuffer);
-        this.processAudioData(new Float32Array(audioBuffer)); // Send directly
-      }
-    }, this.captureInterval);
-  }
-
-  private processAudioData(audioData: Float32Array): void {
     try {
-      // Convert to Int16 PCM
-      const pcmData = this.convertFloat32ToInt16PCM(audioData);
-
-      // Save processed audio to WAV file if enabled
-      if (this.saveProcessedAudio) {
-        this.saveAsWavFile(pcmData);
-      }
-
-      // Convert to base64 and send to Gemini
-      const base64Data = this.arrayBufferToBase64(pcmData.buffer);
       this.session.sendRealtimeInput({
-        audio: {
-          data: base64Data,
-          mimeType: "audio/pcm;rate=16000"
-        }
+        audioStreamEnd: true
       });
-
     } catch (error) {
-      console.error('Error processing audio data:', error);
+      console.error('Error ending audio stream:', error);
     }
   }
 
-  private saveAsWavFile(pcmData: Int16Array): void {
-    try {
-      // Create WAV file using wavefile package
-      const wav = new WaveFile();
-      wav.fromScratch(1, this.targetSampleRate, '16', pcmData);
+  stopAudioProcessing(): void {
+    stopAudioChunker(this.audioChunker);
+    this.audioChunker = null;
 
-      // Convert to buffer and create blob for download
-      const wavBuffer = wav.toBuffer();
-      const blob = new Blob([wavBuffer], {type: 'audio/wav'});
-      this.downloadWavFile(blob);
+    downloadProcessingRecordings(this.processingRecordings);
+    this.processingRecordings = null;
 
-    } catch (error) {
-      console.error('Error creating WAV file:', error);
-    }
+    console.log('Audio processing stopped');
   }
 
-  private downloadWavFile(wavBlob: Blob): void {
-    const timestamp = Date.now();
-    const filename = `processed_audio_${timestamp}.wav`;
-
-    const url = URL.createObjectURL(wavBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.style.display = 'none';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
-    console.log(`Downloaded processed audio: ${filename} (${wavBlob.size} bytes)`);
-  }
+  private processAudioData(audioData: AudioChunk): void {
+    try {
+      // Record processed audio for the WAV dump if enabled
+      if (this.processingRecordings) {
+        appendToRecording(this.processingRecordings.after, audioData);
+      }
 
-  private convertFloat32ToInt16PCM(float32Data: Float32Array): Int16Array {
-    const int16Data = new Int16Array(float32Data.length);
+      this.sendAudioData(audioData);
 
-    for (let i = 0; i < float32Data.length; i++) {
-      const sample = Math.max(-1, Math.min(1, float32Data[i]));
-      int16Data[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+    } catch (error) {
+      console.error('Error processing audio data:', error);
     }
-
-    return int16Data;
   }
 
-  private arrayBufferToBase64(buffer: ArrayBufferLike): string {
-    const bytes = new Uint8Array(buffer);
+  // Encode in blocks; String.fromCharCode over a whole chunk at once can exceed the argument limit
+  private arrayBufferToBase64(pcmData: Int16Array): string {
+    const bytes = new Uint8Array(pcmData.buffer, pcmData.byteOffset, pcmData.byteLength);
     let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
+    for (let i = 0; i < bytes.byteLength; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
     }
     return btoa(binary);
   }
-
-
 }
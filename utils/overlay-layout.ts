@@ -0,0 +1,41 @@
+// Overlay layout utility for the user-chosen subtitle position, saved per hostname
+
+export interface OverlayLayout {
+  left: number; // Horizontal center of the subtitle box, percent of the video width
+  bottom: number; // Distance from the bottom of the video, percent of its height
+  width: number | null; // Percent of the video width; null keeps the automatic width
+}
+
+type OverlayLayouts = Record<string, OverlayLayout>;
+
+async function loadOverlayLayouts(): Promise<OverlayLayouts> {
+  const { overlayLayouts } = await browser.storage.local.get('overlayLayouts');
+  return overlayLayouts ?? {};
+}
+
+export async function loadOverlayLayout(hostname: string): Promise<OverlayLayout | null> {
+  const layouts = await loadOverlayLayouts();
+  return layouts[hostname] ?? null;
+}
+
+export async function saveOverlayLayout(hostname: string, layout: OverlayLayout | null): Promise<void> {
+  const layouts = await loadOverlayLayouts();
+  if (layout) {
+    layouts[hostname] = layout;
+  } else {
+    delete layouts[hostname];
+  }
+  await browser.storage.local.set({ overlayLayouts: layouts });
+}
+
+// Call back with the hostname's layout whenever the saved layouts change; returns an unsubscribe function
+export function watchOverlayLayout(hostname: string, callback: (layout: OverlayLayout | null) => void): () => void {
+  const listener = (changes: Record<string, { newValue?: unknown }>, areaName: string) => {
+    if (areaName === 'local' && changes.overlayLayouts) {
+      const layouts = (changes.overlayLayouts.newValue ?? {}) as OverlayLayouts;
+      callback(layouts[hostname] ?? null);
+    }
+  };
+  browser.storage.onChanged.addListener(listener);
+  return () => browser.storage.onChanged.removeListener(listener);
+}
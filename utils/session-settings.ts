@@ -0,0 +1,27 @@
+// Session settings utility for transcription sessions and their audio sources
+
+// 'page' transcribes the page's video and audio elements, 'microphone' an input device
+export type AudioSource = 'page' | 'microphone';
+
+export interface SessionSettings {
+  maxConcurrentSessions: number; // Across all tabs; starting one more stops the oldest
+  microphoneDeviceId: string | null; // Last picked input device (null: system default)
+  gateSilence: boolean; // Hold back audio without speech instead of streaming (and paying for) it
+  includeAudioElements: boolean; // Also translate <audio> elements; off so UI sounds don't start sessions
+}
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  maxConcurrentSessions: 2,
+  microphoneDeviceId: null,
+  gateSilence: true,
+  includeAudioElements: false,
+};
+
+export async function loadSessionSettings(): Promise<SessionSettings> {
+  const { sessionSettings } = await browser.storage.local.get('sessionSettings');
+  return { ...DEFAULT_SESSION_SETTINGS, ...(sessionSettings ?? {}) };
+}
+
+export async function saveSessionSettings(sessionSettings: SessionSettings): Promise<void> {
+  await browser.storage.local.set({ sessionSettings });
+}
@@ -0,0 +1,107 @@
+// Session status utility for describing transcription session states and errors to users
+
+import { ConnectionState, type SessionStatus } from '~/utils/transcription-session';
+
+export type StatusTone = 'info' | 'ok' | 'warning' | 'error';
+
+export const STATUS_TONE_COLORS: Record<StatusTone, string> = {
+  info: '#6c757d',
+  ok: '#28a745',
+  warning: '#e0a800',
+  error: '#dc3545',
+};
+
+// Most severe first, for summarizing several sessions in one badge
+const TONE_SEVERITY: StatusTone[] = ['error', 'warning', 'info', 'ok'];
+
+export interface StatusBadge {
+  label: string;
+  shortLabel: string; // Fits the extension action's badge (about four characters)
+  tone: StatusTone;
+  title: string; // Label and reason, for tooltips
+}
+
+// Reasons the background recognizes to mark API keys and rotate away from them
+export const INVALID_API_KEY_REASON = 'Invalid API key';
+export const QUOTA_EXCEEDED_REASON = 'Quota exceeded for this API key';
+export const NO_USABLE_API_KEY_REASON = 'No usable API key left; check the keys in the popup';
+
+export interface SessionError {
+  reason: string;
+  isRetryable: boolean; // false when retrying can't help, e.g. an invalid API key
+}
+
+export function createSessionStatus(state: ConnectionState, reason: string | null = null): SessionStatus {
+  return { state, reconnectAttempt: 0, maxReconnectAttempts: 0, reason };
+}
+
+// The badge shown for a status; null when there is nothing to show
+export function getStatusBadge(status: SessionStatus): StatusBadge | null {
+  let label: string;
+  let shortLabel: string;
+  let tone: StatusTone;
+
+  switch (status.state) {
+    case ConnectionState.CONNECTING:
+      [label, shortLabel, tone] = ['Connecting', '…', 'info'];
+      break;
+    case ConnectionState.CONNECTED:
+      [label, shortLabel, tone] = ['Live', 'LIVE', 'ok'];
+      break;
+    case ConnectionState.RECONNECTING: {
+      const attempts = `${status.reconnectAttempt}/${status.maxReconnectAttempts}`;
+      [label, shortLabel, tone] = [`Reconnecting ${attempts}`, attempts, 'warning'];
+      break;
+    }
+    case ConnectionState.FAILED:
+      [label, shortLabel, tone] = ['Failed', '!', 'error'];
+      break;
+    default:
+      // A session that ends normally leaves no badge; one stopped for a reason says why
+      if (!status.reason) {
+        return null;
+      }
+      [label, shortLabel, tone] = ['Stopped', 'OFF', 'warning'];
+  }
+
+  return { label, shortLabel, tone, title: status.reason ? `${label}: ${status.reason}` : label };
+}
+
+export function getMostSevereBadge(badges: StatusBadge[]): StatusBadge | null {
+  for (const tone of TONE_SEVERITY) {
+    const badge = badges.find(candidate => candidate.tone === tone);
+    if (badge) {
+      return badge;
+    }
+  }
+  return null;
+}
+
+// Turn an API, WebSocket close or capture error into a reason a user can act on
+export function describeSessionError(error: unknown): SessionError {
+  const message = error instanceof Error ? error.message : String(error ?? '');
+
+  if (/no api key/i.test(message)) {
+    return { reason: 'No API key set; add one in the popup', isRetryable: false };
+  }
+  if (/api key not valid|api_key_invalid|invalid api key|api key expired/i.test(message)) {
+    return { reason: INVALID_API_KEY_REASON, isRetryable: false };
+  }
+  if (/quota|resource_exhausted|rate limit|\b429\b/i.test(message)) {
+    return { reason: QUOTA_EXCEEDED_REASON, isRetryable: false };
+  }
+  if (/permission_denied|permission denied|\b403\b/i.test(message)) {
+    return { reason: 'The API key has no access to this model', isRetryable: false };
+  }
+  if (/no audio track/i.test(message)) {
+    return { reason: 'No audio track could be captured', isRetryable: false };
+  }
+  if (/tab audio|tabcapture|has not been invoked/i.test(message)) {
+    return { reason: 'Tab audio capture unavailable; open the popup on this tab and try again', isRetryable: false };
+  }
+  if (/network|failed to fetch|offline|timed? ?out/i.test(message)) {
+    return { reason: 'Network connection lost', isRetryable: true };
+  }
+
+  return { reason: message || 'Connection lost', isRetryable: true };
+}
@@ -0,0 +1,86 @@
+// Site rule utility for per-URL enablement and profile selection
+
+export interface SiteRule {
+  id: string;
+  pattern: string; // e.g. "youtube.com/watch", "*.netflix.com", "example.com/videos/*"
+  enabled: boolean; // true: auto-enable translation, false: keep the extension off
+  profileId: string | null; // null: use the active profile
+}
+
+export interface SiteSettings {
+  enabled: boolean;
+  profileId: string | null;
+  rule: SiteRule | null;
+}
+
+export function createSiteRuleId(): string {
+  return `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function loadSiteRules(): Promise<SiteRule[]> {
+  const { siteRules } = await browser.storage.local.get('siteRules');
+  return Array.isArray(siteRules) ? siteRules : [];
+}
+
+export async function saveSiteRules(siteRules: SiteRule[]): Promise<void> {
+  await browser.storage.local.set({ siteRules });
+}
+
+function wildcardToRegExpSource(value: string): string {
+  return value
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+}
+
+// A pattern is "host[/path]". The host matches itself and its subdomains,
+// the path matches as a prefix. Both parts accept "*" wildcards.
+export function matchesSitePattern(url: string, pattern: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  const normalized = pattern.trim().replace(/^[a-z]+:\/\//i, '');
+  if (!normalized) {
+    return false;
+  }
+
+  const slashIndex = normalized.indexOf('/');
+  const hostPattern = (slashIndex === -1 ? normalized : normalized.slice(0, slashIndex)).toLowerCase();
+  const pathPattern = slashIndex === -1 ? '' : normalized.slice(slashIndex);
+
+  const hostRegExp = new RegExp(`^(.*\\.)?${wildcardToRegExpSource(hostPattern)}$`);
+  if (!hostRegExp.test(parsed.hostname.toLowerCase())) {
+    return false;
+  }
+
+  if (!pathPattern) {
+    return true;
+  }
+
+  const pathRegExp = new RegExp(`^${wildcardToRegExpSource(pathPattern)}`);
+  return pathRegExp.test(parsed.pathname + parsed.search);
+}
+
+// The first matching rule wins, so users can order specific rules before broad ones
+export function findSiteRule(url: string, siteRules: SiteRule[]): SiteRule | null {
+  return siteRules.find(rule => matchesSitePattern(url, rule.pattern)) ?? null;
+}
+
+// Resolve whether translation is enabled on a page and which profile it uses
+export async function resolveSiteSettings(url: string): Promise<SiteSettings> {
+  const [siteRules, { enabled }] = await Promise.all([
+    loadSiteRules(),
+    browser.storage.local.get('enabled'),
+  ]);
+
+  const rule = findSiteRule(url, siteRules);
+  if (rule) {
+    return { enabled: rule.enabled, profileId: rule.enabled ? rule.profileId : null, rule };
+  }
+
+  return { enabled: enabled ?? false, profileId: null, rule: null };
+}
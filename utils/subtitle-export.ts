@@ -0,0 +1,116 @@
+// Subtitle export utility for saving captured segments as SRT / WebVTT files
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleSegment {
+  start: number; // video.currentTime in seconds when the text arrived
+  end: number;
+  text: string; // Translation
+  original?: string; // Source-language transcript, when the backend provides one
+  tentative?: boolean; // Interim text that may still be refined
+}
+
+// How long a segment stays on screen when no newer text replaces it
+export const SEGMENT_DISPLAY_SECONDS = 5;
+
+// Insert a segment in time order, closing the previous one where the new one starts
+// and cutting the new one short if a later segment already exists (after seeking back)
+export function recordSegment(
+  segments: SubtitleSegment[],
+  text: string,
+  currentTime: number,
+  original = '',
+  duration = SEGMENT_DISPLAY_SECONDS
+): SubtitleSegment {
+  const segment: SubtitleSegment = {
+    start: currentTime,
+    end: currentTime + duration,
+    text: text.trim(),
+    original: original.trim()
+  };
+
+  let index = segments.findIndex(existing => existing.start > currentTime);
+  if (index === -1) {
+    index = segments.length;
+  }
+
+  const previous = segments[index - 1];
+  if (previous && previous.end > currentTime) {
+    previous.end = currentTime;
+  }
+
+  const next = segments[index];
+  if (next && next.start < segment.end) {
+    segment.end = next.start;
+  }
+
+  segments.splice(index, 0, segment);
+  return segment;
+}
+
+// Refine a segment's text in place, keeping it on screen for a while after the latest update
+export function updateSegment(
+  segments: SubtitleSegment[],
+  segment: SubtitleSegment,
+  text: string,
+  currentTime: number,
+  original = ''
+): void {
+  segment.text = text.trim();
+  segment.original = original.trim();
+
+  const next = segments[segments.indexOf(segment) + 1];
+  const end = Math.max(segment.end, currentTime + SEGMENT_DISPLAY_SECONDS);
+  segment.end = next ? Math.min(end, next.start) : end;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function formatSrt(segments: SubtitleSegment[]): string {
+  return segments
+    .map((segment, index) => [
+      `${index + 1}`,
+      `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+      segment.text,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function formatVtt(segments: SubtitleSegment[]): string {
+  const cues = segments
+    .map(segment => [
+      `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}`,
+      segment.text,
+    ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function downloadSubtitleFile(segments: SubtitleSegment[], format: SubtitleFormat, baseName: string): void {
+  const content = format === 'srt' ? formatSrt(segments) : formatVtt(segments);
+  const mimeType = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+  const safeName = baseName.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'subtitles';
+  const filename = `${safeName}.${format}`;
+
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+
+  console.log(`Downloaded subtitles: ${filename} (${segments.length} segments)`);
+}
@@ -1,19 +1,56 @@
-// Subtitle overlay utility for creating and managing video subtitles
+// Subtitle overlay utility for creating and managing video subtitles.
+// Audio elements have nothing to anchor to, so their subtitles float at the bottom of the viewport.
 
-export function createSubtitleOverlay(video: HTMLVideoElement): HTMLElement {
+import type { OverlayLayout } from '~/utils/overlay-layout';
+import { STATUS_TONE_COLORS, type StatusBadge } from '~/utils/session-status';
+import type { SubtitleSegment } from '~/utils/subtitle-export';
+import {
+  applyStyleProperties,
+  getSubtitleBoxStyle,
+  getSubtitleLineStyle,
+  type SubtitleSettings
+} from '~/utils/subtitle-settings';
+
+// An overlay renders the cue of its timeline covering video.currentTime, rolling up
+// the cues just before it so continuous speech reads as a few stacked lines
+export interface SubtitleOverlay {
+  element: HTMLElement;
+  originalLine: HTMLElement;
+  translationLine: HTMLElement;
+  video: HTMLMediaElement;
+  cues: SubtitleSegment[]; // Sorted by start time, shared with the caller
+  visibleCues: SubtitleSegment[]; // Oldest first; the last one covers the current time
+  settings: SubtitleSettings;
+  listeners: AbortController;
+  resizeObserver: ResizeObserver; // Keeps the box anchored to the video as the player resizes
+  container: HTMLElement; // Where the overlay lives outside fullscreen
+  track: TextTrack | null; // Native captions, also used where a div can't show: fullscreen <video> and picture-in-picture
+  layout: OverlayLayout | null; // User-chosen position, overriding the settings' bottom offset
+  resizeHandle: HTMLElement;
+  editListeners: AbortController | null; // Set while the overlay can be dragged and resized
+  statusBadge: HTMLElement; // Session status in the video's top-left corner
+  status: StatusBadge | null;
+}
+
+const EDIT_PLACEHOLDER = 'Drag to move subtitles · drag the corner to resize';
+
+// Earlier cues stay in the roll-up while no longer gap than this separates them
+const ROLL_UP_GAP_SECONDS = 1;
+
+export function createSubtitleOverlay(
+  video: HTMLMediaElement,
+  cues: SubtitleSegment[],
+  settings: SubtitleSettings,
+  layout: OverlayLayout | null = null
+): SubtitleOverlay {
   // Create subtitle container
   const subtitleContainer = document.createElement('div');
   subtitleContainer.style.cssText = `
     position: absolute;
-    bottom: 20px;
     left: 50%;
     transform: translateX(-50%);
-    background: rgba(0, 0, 0, 0.8);
-    color: white;
     padding: 8px 16px;
     border-radius: 4px;
-    font-family: Arial, sans-serif;
-    font-size: 16px;
     font-weight: bold;
     text-align: center;
     max-width: 80%;
@@ -22,46 +59,436 @@ export function createSubtitleOverlay(video: HTMLVideoElement): HTMLElement {
     pointer-events: none;
     display: none;
   `;
-  
-  // Position relative to video element
-  const videoContainer = video.parentElement || document.body;
-  
+
+  // Original-language transcript in smaller text above the translation
+  const originalLine = document.createElement('div');
+  originalLine.style.cssText = `
+    font-size: 0.8em;
+    font-weight: normal;
+    opacity: 0.85;
+  `;
+  const translationLine = document.createElement('div');
+
+  // Corner handle for resizing, only shown in edit mode
+  const resizeHandle = document.createElement('div');
+  resizeHandle.style.cssText = `
+    position: absolute;
+    right: -6px;
+    bottom: -6px;
+    width: 12px;
+    height: 12px;
+    background: white;
+    border: 1px solid #007bff;
+    border-radius: 2px;
+    cursor: nwse-resize;
+    display: none;
+  `;
+  subtitleContainer.append(originalLine, translationLine, resizeHandle);
+
+  // Position relative to video element (anchored to its visible rect in applyOverlayStyle)
+  const isFloating = !(video instanceof HTMLVideoElement);
+  const videoContainer = (!isFloating && video.parentElement) || document.body;
+  if (isFloating) {
+    subtitleContainer.style.position = 'fixed';
+  }
+
   // Make sure the video container has relative positioning
-  if (videoContainer !== document.body) {
+  if (videoContainer !== document.body && !isFloating) {
     const containerStyle = getComputedStyle(videoContainer);
     if (containerStyle.position === 'static') {
       videoContainer.style.position = 'relative';
     }
   }
-  
-  videoContainer.appendChild(subtitleContainer);
-  
+
+  // Small session status label (connecting, live, failed, ...) with the reason as tooltip
+  const statusBadge = document.createElement('div');
+  statusBadge.style.cssText = `
+    position: absolute;
+    padding: 2px 6px;
+    border-radius: 3px;
+    color: white;
+    font: bold 11px Arial, sans-serif;
+    opacity: 0.85;
+    z-index: 10000;
+    display: none;
+  `;
+  if (isFloating) {
+    statusBadge.style.position = 'fixed';
+  }
+
+  videoContainer.append(subtitleContainer, statusBadge);
+
+  const overlay: SubtitleOverlay = {
+    element: subtitleContainer,
+    originalLine,
+    translationLine,
+    video,
+    cues,
+    visibleCues: [],
+    settings,
+    listeners: new AbortController(),
+    resizeObserver: new ResizeObserver(() => applyOverlayStyle(overlay)),
+    container: videoContainer,
+    track: null,
+    layout,
+    resizeHandle,
+    editListeners: null,
+    statusBadge,
+    status: null
+  };
+
+  applyOverlayStyle(overlay);
+  overlay.resizeObserver.observe(video);
+  overlay.resizeObserver.observe(videoContainer);
+
+  // Re-render whenever playback position or speed changes; a paused video keeps its line
+  const { signal } = overlay.listeners;
+  const render = () => renderSubtitleOverlay(overlay);
+  for (const eventName of ['timeupdate', 'seeked', 'ratechange']) {
+    video.addEventListener(eventName, render, { signal });
+  }
+
+  // Stay anchored to the video's visible rect when the page or the video's aspect ratio changes
+  const reposition = () => applyOverlayStyle(overlay);
+  window.addEventListener('resize', reposition, { signal });
+  video.addEventListener('loadedmetadata', reposition, { signal });
+
+  // Follow the video into fullscreen and picture-in-picture
+  const updateDisplayMode = () => updateOverlayDisplayMode(overlay);
+  document.addEventListener('fullscreenchange', updateDisplayMode, { signal });
+  video.addEventListener('enterpictureinpicture', updateDisplayMode, { signal });
+  video.addEventListener('leavepictureinpicture', updateDisplayMode, { signal });
+
   console.log('Subtitle overlay created');
-  return subtitleContainer;
+  updateOverlayDisplayMode(overlay);
+  return overlay;
+}
+
+// Switch the overlay to another cue timeline (e.g. from live capture to cached replay)
+export function setSubtitleCues(overlay: SubtitleOverlay, cues: SubtitleSegment[]): void {
+  overlay.cues = cues;
+  renderSubtitleOverlay(overlay, true);
 }
 
-export function updateSubtitles(text: string, subtitleElement: HTMLElement): void {
-  if (!subtitleElement || !text.trim()) {
+export function applySubtitleSettings(overlay: SubtitleOverlay, settings: SubtitleSettings): void {
+  overlay.settings = settings;
+  updateOverlayDisplayMode(overlay); // The output mode may have changed
+}
+
+export function setOverlayStatus(overlay: SubtitleOverlay, status: StatusBadge | null): void {
+  overlay.status = status;
+  // Problems spell out their reason; the tooltip has it for the other states
+  const showsReason = status?.tone === 'warning' || status?.tone === 'error';
+  overlay.statusBadge.textContent = (showsReason ? status?.title : status?.label) ?? '';
+  overlay.statusBadge.title = status?.title ?? '';
+  overlay.statusBadge.style.background = status ? STATUS_TONE_COLORS[status.tone] : '';
+  updateStatusBadgeVisibility(overlay);
+}
+
+function updateStatusBadgeVisibility(overlay: SubtitleOverlay): void {
+  overlay.statusBadge.style.display = overlay.status && !usesTrackFallback(overlay) ? 'block' : 'none';
+}
+
+export function applyOverlayLayout(overlay: SubtitleOverlay, layout: OverlayLayout | null): void {
+  overlay.layout = layout;
+  applyOverlayStyle(overlay);
+}
+
+// Position the box in pixels inside its container, relative to the visible video frame
+function applyOverlayStyle(overlay: SubtitleOverlay): void {
+  const { layout, element, settings } = overlay;
+  const videoRect = getVisibleVideoRect(overlay.video);
+  const containerRect = getContainingRect(element);
+
+  applyStyleProperties(element, getSubtitleBoxStyle(settings, videoRect.height));
+  applyStyleProperties(overlay.translationLine, getSubtitleLineStyle(settings));
+
+  const left = layout?.left ?? 50;
+  const bottom = layout?.bottom ?? settings.bottomOffset;
+  element.style.left = `${videoRect.left - containerRect.left + videoRect.width * left / 100}px`;
+  element.style.bottom = `${containerRect.bottom - videoRect.bottom + videoRect.height * bottom / 100}px`;
+  element.style.width = layout?.width ? `${videoRect.width * layout.width / 100}px` : '';
+  element.style.maxWidth = layout?.width ? 'none' : `${videoRect.width * 0.8}px`;
+
+  // The badge shares the box's container, so the same containing rect applies
+  overlay.statusBadge.style.left = `${videoRect.left - containerRect.left + 8}px`;
+  overlay.statusBadge.style.top = `${videoRect.top - containerRect.top + 8}px`;
+}
+
+// The part of the video element showing the frame, excluding letterboxing (viewport coordinates)
+function getVisibleVideoRect(video: HTMLMediaElement): DOMRect {
+  if (!(video instanceof HTMLVideoElement)) {
+    return getViewportRect();
+  }
+
+  const rect = video.getBoundingClientRect();
+  const objectFit = getComputedStyle(video).objectFit;
+  if (!video.videoWidth || !video.videoHeight || (objectFit !== 'contain' && objectFit !== 'scale-down')) {
+    return rect;
+  }
+
+  const scale = Math.min(rect.width / video.videoWidth, rect.height / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  return new DOMRect(rect.left + (rect.width - width) / 2, rect.top + (rect.height - height) / 2, width, height);
+}
+
+function getViewportRect(): DOMRect {
+  return new DOMRect(0, 0, document.documentElement.clientWidth, window.innerHeight);
+}
+
+// The box an absolutely (or fixed) positioned element is placed against (viewport coordinates)
+function getContainingRect(element: HTMLElement): DOMRect {
+  if (element.style.position === 'fixed') {
+    return getViewportRect();
+  }
+
+  const parent = element.parentElement;
+  if (parent && getComputedStyle(parent).position !== 'static') {
+    const rect = parent.getBoundingClientRect();
+    return new DOMRect(
+      rect.left + parent.clientLeft - parent.scrollLeft,
+      rect.top + parent.clientTop - parent.scrollTop,
+      parent.clientWidth,
+      parent.clientHeight
+    );
+  }
+  // Initial containing block
+  return new DOMRect(-window.scrollX, -window.scrollY, document.documentElement.clientWidth, window.innerHeight);
+}
+
+// Tracks added by script can't be removed, so each media element gets one, created lazily and
+// reused by every overlay later shown on it
+const mediaTextTracks = new WeakMap<HTMLMediaElement, TextTrack>();
+
+function getMediaTextTrack(video: HTMLMediaElement): TextTrack {
+  let track = mediaTextTracks.get(video);
+  if (!track) {
+    track = video.addTextTrack('subtitles', 'Translated subtitles');
+    mediaTextTracks.set(video, track);
+  }
+  return track;
+}
+
+// Move the box into a fullscreen ancestor, and show the text track for native output or where no div can be shown
+function updateOverlayDisplayMode(overlay: SubtitleOverlay): void {
+  const { element, statusBadge, video } = overlay;
+  const fullscreenElement = document.fullscreenElement;
+
+  if (fullscreenElement && fullscreenElement !== video && fullscreenElement.contains(video)) {
+    if (!fullscreenElement.contains(element)) {
+      fullscreenElement.append(element, statusBadge);
+    }
+  } else if (element.parentElement !== overlay.container) {
+    overlay.container.append(element, statusBadge);
+  }
+  updateStatusBadgeVisibility(overlay);
+
+  const showTrack = overlay.settings.outputMode !== 'overlay' || usesTrackFallback(overlay);
+  if (overlay.track || showTrack) {
+    overlay.track ??= getMediaTextTrack(video);
+    overlay.track.mode = showTrack ? 'showing' : 'disabled';
+  }
+
+  applyOverlayStyle(overlay);
+  renderSubtitleOverlay(overlay, true);
+}
+
+function usesTrackFallback(overlay: SubtitleOverlay): boolean {
+  const { video } = overlay;
+  return document.fullscreenElement === video || document.pictureInPictureElement === video;
+}
+
+// Native output hides the box, except while editing so the user has something to position
+function showsOverlayBox(overlay: SubtitleOverlay): boolean {
+  const isEditing = overlay.editListeners !== null;
+  return (overlay.settings.outputMode !== 'native' || isEditing) && !usesTrackFallback(overlay);
+}
+
+// Mirror the rendered lines into the text track, timed by the current cue
+function syncTextTrack(overlay: SubtitleOverlay, cue: SubtitleSegment | null, lines: string[]): void {
+  const track = overlay.track;
+  if (!track || track.mode === 'disabled') {
+    return;
+  }
+
+  for (const existing of Array.from(track.cues ?? [])) {
+    track.removeCue(existing);
+  }
+
+  if (cue && lines.length > 0) {
+    track.addCue(new VTTCue(cue.start, cue.end, lines.join('\n')));
+  }
+}
+
+// The cue covering `time`, preceded by up to maxLines - 1 cues that ran into it
+function findVisibleCues(overlay: SubtitleOverlay, time: number): SubtitleSegment[] {
+  const { cues, settings } = overlay;
+  const index = cues.findIndex(candidate => candidate.start <= time && time < candidate.end);
+  if (index === -1) {
+    return [];
+  }
+
+  let first = index;
+  while (
+    first > 0
+    && index - first + 1 < settings.maxLines
+    && cues[first].start - cues[first - 1].end <= ROLL_UP_GAP_SECONDS
+  ) {
+    first--;
+  }
+  return cues.slice(first, index + 1);
+}
+
+// The original belongs to the first cue of a result, which may have rolled off already
+function findOriginal(overlay: SubtitleOverlay, cue: SubtitleSegment): string {
+  const { cues } = overlay;
+  for (let index = cues.indexOf(cue); index >= 0; index--) {
+    if (cues[index].original) {
+      return cues[index].original ?? '';
+    }
+    if (index > 0 && cues[index].start - cues[index - 1].end > ROLL_UP_GAP_SECONDS) {
+      break;
+    }
+  }
+  return '';
+}
+
+// Let the user drag and resize the overlay; onLayoutChange receives the layout after each gesture
+export function setOverlayEditMode(
+  overlay: SubtitleOverlay,
+  enabled: boolean,
+  onLayoutChange: (layout: OverlayLayout) => void
+): void {
+  const { element, resizeHandle } = overlay;
+
+  overlay.editListeners?.abort();
+  overlay.editListeners = null;
+
+  element.style.pointerEvents = enabled ? 'auto' : 'none';
+  element.style.cursor = enabled ? 'move' : '';
+  element.style.outline = enabled ? '2px dashed #007bff' : '';
+  element.style.userSelect = enabled ? 'none' : '';
+  resizeHandle.style.display = enabled ? 'block' : 'none';
+
+  if (enabled) {
+    const listeners = new AbortController();
+    overlay.editListeners = listeners;
+
+    element.addEventListener('pointerdown', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      element.setPointerCapture(event.pointerId);
+
+      const isResize = event.target === resizeHandle;
+      const videoRect = getVisibleVideoRect(overlay.video);
+      const startRect = element.getBoundingClientRect();
+      const startX = event.clientX;
+      const startY = event.clientY;
+      let layout = currentLayout(overlay, videoRect, startRect);
+
+      const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+      const onMove = (moveEvent: PointerEvent) => {
+        const dx = moveEvent.clientX - startX;
+        const dy = moveEvent.clientY - startY;
+
+        if (isResize) {
+          // The box is centered on `left`, so it grows on both sides
+          const width = (startRect.width + 2 * dx) / videoRect.width * 100;
+          layout = { ...layout, width: clamp(width, 10, 100) };
+        } else {
+          const centerX = startRect.left + startRect.width / 2 + dx - videoRect.left;
+          const bottom = videoRect.bottom - (startRect.bottom + dy);
+          layout = {
+            ...layout,
+            left: clamp(centerX / videoRect.width * 100, 0, 100),
+            bottom: clamp(bottom / videoRect.height * 100, 0, 95)
+          };
+        }
+        applyOverlayLayout(overlay, layout);
+      };
+
+      const onUp = () => {
+        element.removeEventListener('pointermove', onMove);
+        element.removeEventListener('pointerup', onUp);
+        element.removeEventListener('pointercancel', onUp);
+        onLayoutChange(layout);
+      };
+
+      element.addEventListener('pointermove', onMove);
+      element.addEventListener('pointerup', onUp);
+      element.addEventListener('pointercancel', onUp);
+    }, { signal: listeners.signal });
+
+    // Keep clicks from reaching the player (play/pause) while editing
+    element.addEventListener('click', (event) => event.stopPropagation(), { signal: listeners.signal });
+  }
+
+  renderSubtitleOverlay(overlay, true); // Show or hide the placeholder
+}
+
+function currentLayout(overlay: SubtitleOverlay, videoRect: DOMRect, rect: DOMRect): OverlayLayout {
+  if (overlay.layout) {
+    return overlay.layout;
+  }
+  return {
+    left: (rect.left + rect.width / 2 - videoRect.left) / videoRect.width * 100,
+    bottom: (videoRect.bottom - rect.bottom) / videoRect.height * 100,
+    width: null
+  };
+}
+
+export function renderSubtitleOverlay(overlay: SubtitleOverlay, force = false): void {
+  const visibleCues = findVisibleCues(overlay, overlay.video.currentTime);
+  const unchanged = visibleCues.length === overlay.visibleCues.length
+    && visibleCues.every((cue, index) => cue === overlay.visibleCues[index]);
+
+  if (unchanged && !force) {
     return;
   }
-  
-  console.log('Updating subtitles:', text);
-  
-  // Update subtitle text
-  subtitleElement.textContent = text;
-  subtitleElement.style.display = 'block';
-  
-  // Auto-hide subtitles after 5 seconds of no updates
-  clearTimeout((subtitleElement as any).hideTimeout);
-  (subtitleElement as any).hideTimeout = setTimeout(() => {
-    subtitleElement.style.display = 'none';
-  }, 5000);
-}
-
-export function removeSubtitleOverlay(subtitleElement: HTMLElement | null): void {
-  if (subtitleElement) {
-    // Clear any pending timeout
-    clearTimeout((subtitleElement as any).hideTimeout);
-    subtitleElement.remove();
-  }
-}
\ No newline at end of file
+
+  overlay.visibleCues = visibleCues;
+  const cue = visibleCues[visibleCues.length - 1] ?? null;
+
+  const original = cue && overlay.settings.showOriginal ? findOriginal(overlay, cue) : '';
+  let translation = overlay.settings.showTranslation ? visibleCues.map(visible => visible.text).join('\n') : '';
+
+  syncTextTrack(overlay, cue, [original, translation].filter(Boolean));
+
+  // Keep the box visible while editing so there is something to drag
+  if (!original && !translation && overlay.editListeners) {
+    translation = EDIT_PLACEHOLDER;
+  }
+
+  overlay.originalLine.textContent = original;
+  overlay.originalLine.style.display = original ? 'block' : 'none';
+  overlay.translationLine.textContent = translation;
+  overlay.translationLine.style.display = translation ? '-webkit-box' : 'none';
+
+  // Interim text that may still change is shown in a lighter, tentative style
+  overlay.element.style.fontStyle = cue?.tentative ? 'italic' : '';
+  overlay.element.style.opacity = cue?.tentative ? '0.75' : '';
+
+  if ((original || translation) && showsOverlayBox(overlay)) {
+    console.log('Updating subtitles:', translation || original);
+    overlay.element.style.display = 'block';
+  } else {
+    overlay.element.style.display = 'none';
+  }
+}
+
+export function removeSubtitleOverlay(overlay: SubtitleOverlay | null): void {
+  if (overlay) {
+    overlay.listeners.abort();
+    overlay.editListeners?.abort();
+    overlay.resizeObserver.disconnect();
+    overlay.element.remove();
+    overlay.statusBadge.remove();
+    // Text tracks can't be removed from a video, only disabled
+    if (overlay.track) {
+      syncTextTrack(overlay, null, []);
+      overlay.track.mode = 'disabled';
+    }
+  }
+}
@@ -0,0 +1,126 @@
+// Subtitle segmenter utility for splitting results into readable, reading-speed timed cues
+
+// Reading speeds in characters per second; CJK characters carry more meaning each
+const READING_SPEED_CPS = 15;
+const CJK_READING_SPEED_CPS = 7;
+const MIN_CUE_SECONDS = 1.2;
+const MAX_CUE_SECONDS = 6;
+
+// Han, kana, Hangul and full-width forms, counted as two columns when measuring lines
+const CJK_PATTERN = /[\u1100-\u11ff\u2e80-\u2fdf\u3000-\u30ff\u3130-\u318f\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+// CJK sentence punctuation ends a sentence on its own; Latin needs a following space
+const CJK_SENTENCE_END = /[。！？…]/;
+const LATIN_SENTENCE_END = /[.!?]/;
+const CLOSING_PUNCTUATION = /[」』）】〉》"'”’)\]]/;
+const CLAUSE_BREAK = /[,;:，、；：]/;
+
+// Characters that must not start a line (CJK line-breaking rules)
+const NO_LINE_START = /[，。、！？；：」』）】〉》”’…ー・,.!?;:)\]]/;
+
+function isCjk(char: string): boolean {
+  return CJK_PATTERN.test(char);
+}
+
+export function getTextWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += isCjk(char) ? 2 : 1;
+  }
+  return width;
+}
+
+// How long a cue should stay on screen to be read comfortably
+export function getReadingDuration(text: string): number {
+  const chars = Array.from(text.replace(/\s+/g, ''));
+  const cjkCount = chars.filter(isCjk).length;
+  const seconds = cjkCount / CJK_READING_SPEED_CPS + (chars.length - cjkCount) / READING_SPEED_CPS;
+  return Math.min(MAX_CUE_SECONDS, Math.max(MIN_CUE_SECONDS, seconds));
+}
+
+// Split text into cues of at most maxWidth columns, breaking at sentences, then clauses, then words
+export function splitIntoCues(text: string, maxWidth: number): string[] {
+  return splitSentences(text).flatMap(sentence => wrapSentence(sentence, Math.max(2, maxWidth)));
+}
+
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let current = '';
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    current += char;
+
+    const next = text[index + 1] ?? '';
+    const endsSentence = CJK_SENTENCE_END.test(char)
+      || (LATIN_SENTENCE_END.test(char) && (next === '' || /\s/.test(next) || isCjk(next)));
+
+    if (endsSentence && !CJK_SENTENCE_END.test(next) && !LATIN_SENTENCE_END.test(next)) {
+      // Keep closing quotes and brackets with the sentence they close
+      while (index + 1 < text.length && CLOSING_PUNCTUATION.test(text[index + 1])) {
+        current += text[++index];
+      }
+      sentences.push(current.trim());
+      current = '';
+    }
+  }
+
+  sentences.push(current.trim());
+  return sentences.filter(Boolean);
+}
+
+function wrapSentence(sentence: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let rest = sentence;
+
+  while (getTextWidth(rest) > maxWidth) {
+    const breakAt = findLineBreak(rest, maxWidth);
+    lines.push(rest.slice(0, breakAt).trim());
+    rest = rest.slice(breakAt).trim();
+  }
+
+  if (rest) {
+    lines.push(rest);
+  }
+  return lines;
+}
+
+// Index to break an over-long line at: after a clause or word that fits, else at the width limit
+function findLineBreak(text: string, maxWidth: number): number {
+  let width = 0;
+  let limit = 0;
+  let clauseBreak = 0;
+  let wordBreak = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    width += isCjk(char) ? 2 : 1;
+    if (width > maxWidth) {
+      break;
+    }
+    limit = index + 1;
+    if (CLAUSE_BREAK.test(char)) {
+      clauseBreak = index + 1;
+    } else if (/\s/.test(char)) {
+      wordBreak = index + 1;
+    }
+  }
+
+  // A clause break is preferred unless it leaves a very short line
+  if (clauseBreak > limit / 2) {
+    return clauseBreak;
+  }
+  if (wordBreak > 0) {
+    return wordBreak;
+  }
+  if (clauseBreak > 0) {
+    return clauseBreak;
+  }
+
+  // No spaces to break at (CJK): cut at the limit, keeping closing punctuation on this line
+  let index = Math.max(1, limit);
+  while (index < text.length && NO_LINE_START.test(text[index])) {
+    index++;
+  }
+  return index;
+}
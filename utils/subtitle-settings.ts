@@ -0,0 +1,113 @@
+// Subtitle settings utility for how the overlay displays cues
+
+export type FontSizeUnit = 'px' | '%'; // '%' is relative to the video height
+export type TextEdgeStyle = 'none' | 'outline' | 'shadow';
+export type SubtitleOutputMode = 'overlay' | 'native' | 'both'; // 'native' uses the player's own caption rendering
+
+export interface SubtitleSettings {
+  outputMode: SubtitleOutputMode;
+  showOriginal: boolean; // Source-language transcript, in smaller text above the translation
+  showTranslation: boolean;
+  fontFamily: string;
+  fontSize: number;
+  fontSizeUnit: FontSizeUnit;
+  textColor: string; // Hex color
+  backgroundColor: string; // Hex color
+  backgroundOpacity: number; // 0 to 1
+  textEdge: TextEdgeStyle;
+  bottomOffset: number; // Distance from the bottom of the video, percent of its height
+  maxLines: number; // Cues kept on screen in the roll-up display
+  maxCharsPerLine: number; // Line width in columns; CJK characters count as two
+}
+
+export const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = {
+  outputMode: 'overlay',
+  showOriginal: true,
+  showTranslation: true,
+  fontFamily: 'Arial, sans-serif',
+  fontSize: 16,
+  fontSizeUnit: 'px',
+  textColor: '#ffffff',
+  backgroundColor: '#000000',
+  backgroundOpacity: 0.8,
+  textEdge: 'none',
+  bottomOffset: 5,
+  maxLines: 2,
+  maxCharsPerLine: 42,
+};
+
+export const FONT_FAMILIES: { value: string; label: string }[] = [
+  { value: 'Arial, sans-serif', label: 'Arial' },
+  { value: '"Noto Sans TC", "Microsoft JhengHei", "PingFang TC", sans-serif', label: 'Noto Sans TC' },
+  { value: 'Georgia, serif', label: 'Georgia' },
+  { value: '"Courier New", monospace', label: 'Courier New' },
+  { value: 'system-ui, sans-serif', label: 'System UI' },
+];
+
+const TEXT_EDGE_SHADOWS: Record<TextEdgeStyle, string> = {
+  none: 'none',
+  outline: '-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000',
+  shadow: '2px 2px 4px rgba(0, 0, 0, 0.9)',
+};
+
+function hexToRgba(hex: string, opacity: number): string {
+  const value = hex.replace('#', '');
+  const r = parseInt(value.slice(0, 2), 16) || 0;
+  const g = parseInt(value.slice(2, 4), 16) || 0;
+  const b = parseInt(value.slice(4, 6), 16) || 0;
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+export function getFontSizePx(settings: SubtitleSettings, videoHeight: number): number {
+  return settings.fontSizeUnit === '%'
+    ? Math.max(8, videoHeight * settings.fontSize / 100)
+    : settings.fontSize;
+}
+
+// CSS properties of the subtitle box, shared by the overlay and the popup preview
+export function getSubtitleBoxStyle(settings: SubtitleSettings, videoHeight: number): Record<string, string> {
+  return {
+    'font-family': settings.fontFamily,
+    'font-size': `${getFontSizePx(settings, videoHeight)}px`,
+    'color': settings.textColor,
+    'background': hexToRgba(settings.backgroundColor, settings.backgroundOpacity),
+    'text-shadow': TEXT_EDGE_SHADOWS[settings.textEdge],
+    'bottom': `${settings.bottomOffset}%`,
+  };
+}
+
+// CSS properties clipping the translation lines (displayed as -webkit-box) to maxLines
+export function getSubtitleLineStyle(settings: SubtitleSettings): Record<string, string> {
+  return {
+    'white-space': 'pre-line',
+    '-webkit-box-orient': 'vertical',
+    '-webkit-line-clamp': `${Math.max(1, settings.maxLines)}`,
+    'overflow': 'hidden',
+  };
+}
+
+export function applyStyleProperties(element: HTMLElement, properties: Record<string, string>): void {
+  for (const [name, value] of Object.entries(properties)) {
+    element.style.setProperty(name, value);
+  }
+}
+
+export async function loadSubtitleSettings(): Promise<SubtitleSettings> {
+  const { subtitleSettings } = await browser.storage.local.get('subtitleSettings');
+  return { ...DEFAULT_SUBTITLE_SETTINGS, ...(subtitleSettings ?? {}) };
+}
+
+export async function saveSubtitleSettings(subtitleSettings: SubtitleSettings): Promise<void> {
+  await browser.storage.local.set({ subtitleSettings });
+}
+
+// Call back with the merged settings whenever they change in storage; returns an unsubscribe function
+export function watchSubtitleSettings(callback: (settings: SubtitleSettings) => void): () => void {
+  const listener = (changes: Record<string, { newValue?: unknown }>, areaName: string) => {
+    if (areaName === 'local' && changes.subtitleSettings) {
+      callback({ ...DEFAULT_SUBTITLE_SETTINGS, ...(changes.subtitleSettings.newValue ?? {}) });
+    }
+  };
+  browser.storage.onChanged.addListener(listener);
+  return () => browser.storage.onChanged.removeListener(listener);
+}
@@ -0,0 +1,74 @@
+// Tab capture utility for capturing a whole tab's audio in the offscreen document (Chrome only)
+
+import type { AudioProcessingSettings } from '~/utils/audio-processing';
+
+const OFFSCREEN_PATH = '/offscreen.html';
+
+async function hasOffscreenDocument(): Promise<boolean> {
+  const contexts = await browser.runtime.getContexts({
+    contextTypes: [browser.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [browser.runtime.getURL(OFFSCREEN_PATH)]
+  });
+  return contexts.length > 0;
+}
+
+async function ensureOffscreenDocument(): Promise<void> {
+  if (await hasOffscreenDocument()) {
+    return;
+  }
+  await browser.offscreen.createDocument({
+    url: OFFSCREEN_PATH,
+    reasons: [browser.offscreen.Reason.USER_MEDIA],
+    justification: 'Capture tab audio for videos whose element audio cannot be captured'
+  });
+}
+
+function getMediaStreamId(tabId: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    browser.tabCapture.getMediaStreamId({ targetTabId: tabId }, (streamId) => {
+      const error = browser.runtime.lastError;
+      if (error || !streamId) {
+        reject(new Error(error?.message ?? 'Tab audio capture is not available'));
+      } else {
+        resolve(streamId);
+      }
+    });
+  });
+}
+
+// Start capturing the tab's audio; the offscreen document sends chunks back tagged with captureId.
+// Chrome only grants this after the user invoked the extension on the tab (e.g. opened the popup).
+// The offscreen document can't read storage, so the capture settings are passed along
+export async function startTabCapture(
+  tabId: number,
+  captureId: string,
+  gateSilence: boolean,
+  processing: AudioProcessingSettings
+): Promise<void> {
+  const streamId = await getMediaStreamId(tabId);
+  await ensureOffscreenDocument();
+
+  const response = await browser.runtime.sendMessage({
+    type: 'OFFSCREEN_START_CAPTURE',
+    streamId,
+    captureId,
+    gateSilence,
+    processing
+  });
+  if (!response?.success) {
+    throw new Error(response?.error ?? 'Failed to start tab audio capture');
+  }
+}
+
+// Stop a capture, closing the offscreen document once nothing else is captured
+export async function stopTabCapture(captureId: string, hasOtherCaptures: boolean): Promise<void> {
+  if (!(await hasOffscreenDocument())) {
+    return;
+  }
+
+  if (hasOtherCaptures) {
+    await browser.runtime.sendMessage({ type: 'OFFSCREEN_STOP_CAPTURE', captureId });
+  } else {
+    await browser.offscreen.closeDocument();
+  }
+}
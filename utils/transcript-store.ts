@@ -0,0 +1,203 @@
+// Transcript store utility persisting subtitle lines in IndexedDB.
+// Only call the database functions from extension pages (background, history page) so every
+// caller shares one database; content scripts go through background messages instead.
+
+import { recordSegment, type SubtitleSegment } from '~/utils/subtitle-export';
+
+const DB_NAME = 'web-video-subtitle';
+const DB_VERSION = 1;
+const TRANSCRIPT_STORE = 'transcripts';
+
+// Identifies the video a transcript belongs to
+export interface TranscriptSource {
+  pageUrl: string;
+  videoSrc: string;
+  title: string;
+}
+
+// Span of video time, in seconds
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface Transcript extends TranscriptSource {
+  key: string;
+  createdAt: number;
+  updatedAt: number;
+  lines: SubtitleSegment[]; // Sorted by start time
+  coverage: TimeRange[]; // Video time ranges that were live-captured, sorted and non-overlapping
+}
+
+export interface TranscriptSearchResult {
+  transcript: Transcript;
+  matches: SubtitleSegment[];
+}
+
+// MSE players (YouTube, Netflix, ...) use blob: URLs that change on every page load,
+// so those videos are identified by the page URL alone
+export function createTranscriptKey(pageUrl: string, videoSrc: string): string {
+  const page = pageUrl.split('#')[0];
+  const src = videoSrc.startsWith('blob:') ? '' : videoSrc;
+  return `${page}|${src}`;
+}
+
+// Insert a range, merging it with any ranges it overlaps or touches
+export function mergeTimeRange(ranges: TimeRange[], range: TimeRange): TimeRange[] {
+  const merged: TimeRange[] = [];
+  let current = { ...range };
+
+  for (const existing of ranges) {
+    if (existing.end < current.start) {
+      merged.push(existing);
+    } else if (existing.start > current.end) {
+      merged.push(current);
+      current = existing;
+    } else {
+      current = {
+        start: Math.min(existing.start, current.start),
+        end: Math.max(existing.end, current.end)
+      };
+    }
+  }
+  merged.push(current);
+
+  return merged;
+}
+
+export function isTimeCovered(coverage: TimeRange[], time: number): boolean {
+  return coverage.some(range => range.start <= time && time < range.end);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRANSCRIPT_STORE)) {
+          const store = db.createObjectStore(TRANSCRIPT_STORE, { keyPath: 'key' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Read-modify-write the transcript of a video, creating it on first use
+async function updateTranscript(source: TranscriptSource, update: (transcript: Transcript) => void): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(TRANSCRIPT_STORE, 'readwrite');
+  const store = transaction.objectStore(TRANSCRIPT_STORE);
+  const key = createTranscriptKey(source.pageUrl, source.videoSrc);
+  const now = Date.now();
+
+  const existing = await requestToPromise<Transcript | undefined>(store.get(key));
+  const transcript: Transcript = existing ?? {
+    ...source,
+    key,
+    createdAt: now,
+    updatedAt: now,
+    lines: [],
+    coverage: []
+  };
+  transcript.coverage = transcript.coverage ?? [];
+
+  update(transcript);
+  transcript.title = source.title || transcript.title;
+  transcript.updatedAt = now;
+  store.put(transcript);
+
+  await transactionDone(transaction);
+}
+
+// Append a subtitle line to the transcript of a video
+export async function appendTranscriptLine(
+  source: TranscriptSource,
+  text: string,
+  original: string,
+  start: number,
+  end?: number
+): Promise<void> {
+  await updateTranscript(source, transcript => {
+    recordSegment(transcript.lines, text, start, original, end !== undefined ? end - start : undefined);
+  });
+}
+
+// Mark a range of video time as live-captured, so replays can skip the Gemini session
+export async function addTranscriptCoverage(source: TranscriptSource, range: TimeRange): Promise<void> {
+  if (range.end <= range.start) {
+    return;
+  }
+  await updateTranscript(source, transcript => {
+    transcript.coverage = mergeTimeRange(transcript.coverage, range);
+  });
+}
+
+// All transcripts, most recently updated first
+export async function listTranscripts(): Promise<Transcript[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(TRANSCRIPT_STORE, 'readonly');
+  const transcripts = await requestToPromise<Transcript[]>(transaction.objectStore(TRANSCRIPT_STORE).getAll());
+  return transcripts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getTranscript(key: string): Promise<Transcript | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(TRANSCRIPT_STORE, 'readonly');
+  const transcript = await requestToPromise<Transcript | undefined>(transaction.objectStore(TRANSCRIPT_STORE).get(key));
+  return transcript ? { ...transcript, coverage: transcript.coverage ?? [] } : null;
+}
+
+export async function deleteTranscript(key: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(TRANSCRIPT_STORE, 'readwrite');
+  transaction.objectStore(TRANSCRIPT_STORE).delete(key);
+  await transactionDone(transaction);
+}
+
+// Case-insensitive full-text search over titles, URLs and subtitle lines
+export async function searchTranscripts(query: string): Promise<TranscriptSearchResult[]> {
+  const transcripts = await listTranscripts();
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return transcripts.map(transcript => ({ transcript, matches: [] }));
+  }
+
+  const results: TranscriptSearchResult[] = [];
+  for (const transcript of transcripts) {
+    const matches = transcript.lines.filter(line =>
+      line.text.toLowerCase().includes(needle) || (line.original ?? '').toLowerCase().includes(needle)
+    );
+    const sourceMatches = `${transcript.title} ${transcript.pageUrl}`.toLowerCase().includes(needle);
+    if (matches.length > 0 || sourceMatches) {
+      results.push({ transcript, matches });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,56 @@
+// Transcription session interface shared by the Live and batch backends
+
+// Connection states shared by all transcription backends
+export enum ConnectionState {
+  DISCONNECTED = 'disconnected',
+  CONNECTING = 'connecting',
+  CONNECTED = 'connected',
+  RECONNECTING = 'reconnecting',
+  FAILED = 'failed'
+}
+
+// A session's connection state, with what a user needs to know about it
+export interface SessionStatus {
+  state: ConnectionState;
+  reconnectAttempt: number; // While reconnecting, 1-based
+  maxReconnectAttempts: number;
+  reason: string | null; // Human-readable cause of a failure, reconnect or stop
+}
+
+export type SessionStatusCallback = (status: SessionStatus) => void;
+
+// 'live' streams audio over the Live API, 'batch' sends accumulated clips to generateContent
+export type TranscriptionEngine = 'live' | 'batch';
+
+export const TRANSCRIPTION_ENGINES: { value: TranscriptionEngine; label: string }[] = [
+  { value: 'live', label: 'Live (low latency)' },
+  { value: 'batch', label: 'Batch (cheaper)' },
+];
+
+// Mono 16-bit PCM chunk as captured; each backend encodes it for Gemini itself
+export interface AudioChunk {
+  pcmData: Int16Array;
+  sampleRate: number;
+}
+
+// A subtitle: the translation plus the source-language transcript when available.
+// Interim results repeat the segmentId of the segment they refine until the final one arrives.
+export interface TranscriptionResult {
+  segmentId: string;
+  text: string;
+  original: string;
+  isFinal: boolean;
+}
+
+export function createSegmentId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Common interface implemented by every transcription backend
+export interface TranscriptionSession {
+  connect(updateSubtitle: (result: TranscriptionResult) => void, onStatusChange?: SessionStatusCallback): Promise<boolean>;
+  sendAudioData(audioData: AudioChunk): void;
+  endAudioStream(): void; // Called when speech stops and no audio follows for a while
+  disconnect(): Promise<void>;
+  getConnectionState(): ConnectionState;
+}
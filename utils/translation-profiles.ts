@@ -0,0 +1,176 @@
+// Translation profile utility for building Gemini system instructions
+
+import type { TranscriptionEngine } from '~/utils/transcription-session';
+
+export interface LanguageOption {
+  code: string;
+  label: string;
+}
+
+// Languages offered in the profile editor ('auto' is only valid as a source)
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'auto', label: 'Auto-detect' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'zh-TW', label: 'Traditional Chinese' },
+  { code: 'zh-CN', label: 'Simplified Chinese' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+];
+
+export type ProfileTone = 'neutral' | 'casual' | 'formal';
+
+export interface TranslationProfile {
+  id: string;
+  name: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  domainHints: string; // Free-form context, e.g. "Korean idols and variety shows"
+  glossary: string; // One "term = translation" pair per line
+  tone: ProfileTone;
+  engine: TranscriptionEngine;
+}
+
+export const DEFAULT_PROFILES: TranslationProfile[] = [
+  {
+    id: 'ko-zh-tw-entertainment',
+    name: 'Korean entertainment → 繁體中文',
+    sourceLanguage: 'ko',
+    targetLanguage: 'zh-TW',
+    domainHints: 'Korean idols and actors; K-pop, variety shows, fan culture, honorifics',
+    glossary: '',
+    tone: 'casual',
+    engine: 'live',
+  },
+  {
+    id: 'ja-zh-tw-drama',
+    name: 'Japanese drama → 繁體中文',
+    sourceLanguage: 'ja',
+    targetLanguage: 'zh-TW',
+    domainHints: 'Japanese TV dramas',
+    glossary: '',
+    tone: 'neutral',
+    engine: 'live',
+  },
+  {
+    id: 'en-zh-tw-tech',
+    name: 'English tech talk → 繁體中文',
+    sourceLanguage: 'en',
+    targetLanguage: 'zh-TW',
+    domainHints: 'Software engineering conference talks; keep product and API names in English',
+    glossary: '',
+    tone: 'formal',
+    engine: 'live',
+  },
+  {
+    id: 'es-zh-tw-news',
+    name: 'Spanish news → 繁體中文',
+    sourceLanguage: 'es',
+    targetLanguage: 'zh-TW',
+    domainHints: 'News broadcasts; politics, economy, place names',
+    glossary: '',
+    tone: 'formal',
+    engine: 'live',
+  },
+];
+
+const TONE_DESCRIPTIONS: Record<ProfileTone, string> = {
+  neutral: 'natural and neutral',
+  casual: 'casual and conversational, keeping the speakers\' personality',
+  formal: 'formal and precise',
+};
+
+export function getLanguageLabel(code: string): string {
+  return LANGUAGES.find(lang => lang.code === code)?.label ?? code;
+}
+
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function loadProfiles(): Promise<TranslationProfile[]> {
+  const { profiles } = await browser.storage.local.get('profiles');
+  if (!Array.isArray(profiles) || profiles.length === 0) {
+    return DEFAULT_PROFILES;
+  }
+  // Profiles saved before the engine option existed default to the Live API
+  return profiles.map((profile: TranslationProfile) => ({ ...profile, engine: profile.engine ?? 'live' }));
+}
+
+export async function saveProfiles(profiles: TranslationProfile[]): Promise<void> {
+  await browser.storage.local.set({ profiles });
+}
+
+export async function getActiveProfile(): Promise<TranslationProfile> {
+  const profiles = await loadProfiles();
+  const { activeProfileId } = await browser.storage.local.get('activeProfileId');
+  return profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+}
+
+// Look up a profile by id, falling back to the active profile when it is missing or was deleted
+export async function getProfileOrActive(profileId: string | null | undefined): Promise<TranslationProfile> {
+  if (profileId) {
+    const profiles = await loadProfiles();
+    const profile = profiles.find(p => p.id === profileId);
+    if (profile) {
+      return profile;
+    }
+  }
+  return getActiveProfile();
+}
+
+export async function setActiveProfileId(activeProfileId: string): Promise<void> {
+  await browser.storage.local.set({ activeProfileId });
+}
+
+// Build the Gemini system instruction for a profile.
+// 'live' asks for sentence-by-sentence streaming output, 'batch' for plain text per audio clip.
+export function buildSystemInstruction(profile: TranslationProfile, mode: 'live' | 'batch'): string {
+  const source = profile.sourceLanguage === 'auto'
+    ? 'any language'
+    : getLanguageLabel(profile.sourceLanguage);
+  const target = getLanguageLabel(profile.targetLanguage);
+
+  const lines = [
+    `You are producing ${mode === 'live' ? 'real-time ' : ''}subtitles for a video.`,
+    '',
+    '**Rules**:',
+    `- Translate speech in ${source} into ${target}.`,
+    `- Speech that is already in ${target} stays as-is, without translation.`,
+    '- Mixed-language speech: handle each part according to its language.',
+    '- Translate everything you hear accurately; do not skip sentences.',
+    '- Several people may speak at once; translate all of them.',
+    `- Tone: ${TONE_DESCRIPTIONS[profile.tone]}.`,
+  ];
+
+  if (profile.domainHints.trim()) {
+    lines.push(`- Context: ${profile.domainHints.trim()}. Use the terminology of this domain.`);
+  }
+
+  const glossaryEntries = profile.glossary
+    .split('\n')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (glossaryEntries.length > 0) {
+    lines.push('', '**Glossary** (always use these translations):');
+    glossaryEntries.forEach(entry => lines.push(`- ${entry}`));
+  }
+
+  lines.push('', '**Output**:');
+  if (mode === 'live') {
+    lines.push(
+      '1. Respond immediately; avoid delays.',
+      '2. Handle each sentence on its own: return a sentence as soon as it is translated while continuing to translate.',
+    );
+  } else {
+    lines.push(
+      '1. No timestamps; output the subtitle text as plain text split into lines.',
+      '2. Return only the subtitle text. If nothing was said, return an empty string.',
+    );
+  }
+  lines.push(`3. Output only ${target} text.`);
+
+  return lines.join('\n');
+}
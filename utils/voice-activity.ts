@@ -0,0 +1,94 @@
+// Voice activity utility for holding back silent audio instead of streaming it to Gemini
+
+import type { AudioChunk } from '~/utils/transcription-session';
+
+// Chunks quieter than this RMS (full scale 1, about -50 dBFS) are never speech
+const MIN_SPEECH_RMS = 0.003;
+// Speech must stand this far above the tracked background level
+const SPEECH_TO_NOISE_RATIO = 2;
+// The background level is the quietest chunk of this window (minimum statistics): it follows quieter
+// audio at once and steady sound such as music within seconds, while speech keeps pauses in the window
+const NOISE_WINDOW_SECONDS = 3;
+// Keep streaming this long after the last speech so trailing words aren't clipped
+const HANGOVER_SECONDS = 0.75;
+// Audio held from just before speech starts so its first syllable isn't clipped
+const PRE_ROLL_SECONDS = 0.25;
+
+interface ChunkLevel {
+  rms: number;
+  seconds: number;
+}
+
+export interface VoiceActivityGate {
+  noiseLevel: number;
+  recentLevels: ChunkLevel[]; // Within the noise window, oldest first
+  isStreaming: boolean;
+  hangoverLeft: number; // Seconds to keep streaming after the last speech
+  preRoll: AudioChunk[];
+}
+
+export interface GateDecision {
+  chunks: AudioChunk[]; // To stream now, held pre-roll first
+  skippedSeconds: number; // Audio dropped for good
+  streamEnded: boolean; // Speech and its hangover just ended
+}
+
+export function createVoiceActivityGate(): VoiceActivityGate {
+  return {
+    noiseLevel: MIN_SPEECH_RMS,
+    recentLevels: [],
+    isStreaming: false,
+    hangoverLeft: 0,
+    preRoll: []
+  };
+}
+
+export function gateAudioChunk(gate: VoiceActivityGate, chunk: AudioChunk): GateDecision {
+  const rms = getRms(chunk.pcmData);
+  const isSpeech = rms >= MIN_SPEECH_RMS && rms >= gate.noiseLevel * SPEECH_TO_NOISE_RATIO;
+  updateNoiseLevel(gate, { rms, seconds: getDuration(chunk) });
+
+  if (isSpeech) {
+    gate.hangoverLeft = HANGOVER_SECONDS;
+  } else if (gate.hangoverLeft > 0) {
+    gate.hangoverLeft -= getDuration(chunk);
+  } else {
+    // Silence: hold the chunk as pre-roll, skipping whatever falls out of it
+    gate.preRoll.push(chunk);
+    let skippedSeconds = 0;
+    while (gate.preRoll.reduce((sum, held) => sum + getDuration(held), 0) > PRE_ROLL_SECONDS + 1e-6) {
+      skippedSeconds += getDuration(gate.preRoll.shift() as AudioChunk);
+    }
+
+    const streamEnded = gate.isStreaming;
+    gate.isStreaming = false;
+    return { chunks: [], skippedSeconds, streamEnded };
+  }
+
+  const chunks = [...gate.preRoll, chunk];
+  gate.preRoll = [];
+  gate.isStreaming = true;
+  return { chunks, skippedSeconds: 0, streamEnded: false };
+}
+
+function updateNoiseLevel(gate: VoiceActivityGate, level: ChunkLevel): void {
+  gate.recentLevels.push(level);
+  let windowSeconds = gate.recentLevels.reduce((sum, recent) => sum + recent.seconds, 0);
+  while (windowSeconds - gate.recentLevels[0].seconds >= NOISE_WINDOW_SECONDS) {
+    windowSeconds -= (gate.recentLevels.shift() as ChunkLevel).seconds;
+  }
+  gate.noiseLevel = Math.max(1e-4, Math.min(...gate.recentLevels.map(recent => recent.rms)));
+}
+
+export function getDuration(chunk: AudioChunk): number {
+  return chunk.pcmData.length / chunk.sampleRate;
+}
+
+function getRms(pcmData: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < pcmData.length; i++) {
+    const sample = pcmData[i] / 0x8000;
+    sum += sample * sample;
+  }
+  return pcmData.length > 0 ? Math.sqrt(sum / pcmData.length) : 0;
+}
@@ -4,6 +4,19 @@ import { defineConfig } from 'wxt';
 export default defineConfig({
   modules: ['@wxt-dev/module-react'],
   manifest: {
-    permissions: ['storage'],
+    permissions: ['storage', 'activeTab', 'tabCapture', 'offscreen'],
+    web_accessible_resources: [
+      {
+        // Audio capture worklet, loaded into AudioContexts created by the content script
+        resources: ['audio-capture-processor.js'],
+        matches: ['<all_urls>'],
+      },
+    ],
+    commands: {
+      'toggle-overlay-edit': {
+        suggested_key: { default: 'Alt+Shift+S' },
+        description: 'Move or resize the subtitles on the page',
+      },
+    },
   },
 });